@@ -0,0 +1,91 @@
+// Minimal stand-in for the Gemini generateContent endpoint so the classifier
+// can be exercised offline. Run with `npm run mock:gemini` and start the app
+// with VITE_GEMINI_BASE_URL=http://localhost:8787.
+//
+// Send a comment containing "malformed" to get a non-JSON answer and check
+// the heuristic fallback; mention WhatsApp or crypto to get a scam verdict.
+// Spanish and Chinese comments get a reply in that language plus English
+// versions of the comment and reply.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT || 8787);
+const INTENTS = [
+  ['investor', ['invest', 'cap rate', 'duplex', 'invertir', '投资']],
+  ['seller', ['sell', 'vender', '卖房']],
+  ['renter', ['rent', 'lease', 'alquil', '租']],
+  ['buyer', ['buy', 'move', 'agent', 'comprar', '买']]
+];
+
+const REPLIES = {
+  en: ['Thanks for reaching out! I would love to help, send me a message.', 'Thanks for watching!'],
+  es: ['¡Gracias por escribir! Con gusto te ayudo, mándame un mensaje.', '¡Gracias por ver el video!'],
+  zh: ['感谢留言！很乐意帮忙，请给我发消息。', '感谢观看！']
+};
+
+const detectLanguage = (comment) => {
+  if (/[\u4e00-\u9fff]/.test(comment)) return 'zh';
+  if (/[ñ¿¡]|\b(estoy|quiero|comprar|casa|gracias)\b/.test(comment)) return 'es';
+  return 'en';
+};
+
+const moderate = (comment) => {
+  if (/whatsapp|telegram|crypto|bitcoin/.test(comment)) return 'scam';
+  if (/https?:\/\/|check my channel/.test(comment)) return 'spam';
+  if (/idiot|stupid/.test(comment)) return 'toxic';
+  return 'clean';
+};
+
+const classify = (prompt) => {
+  const match = prompt.match(/"""([\s\S]*)"""/);
+  const comment = (match ? match[1] : prompt).toLowerCase();
+  if (comment.includes('malformed')) return 'Sure! Here is my analysis: it looks like a lead.';
+
+  const intent = INTENTS.find(([, words]) => words.some(word => comment.includes(word)))?.[0] ?? 'other';
+  const budget = comment.match(/\$\s?\d[\d,.]*k?/);
+  const moderation = moderate(comment);
+  const isLead = intent !== 'other' && moderation === 'clean';
+  const language = detectLanguage(comment);
+  const [leadReply, thanks] = REPLIES[language];
+  return JSON.stringify({
+    isLead,
+    score: isLead ? (budget ? 80 : 55) : 5,
+    intent,
+    entities: budget ? { budget: budget[0] } : {},
+    moderation,
+    language,
+    ...(language !== 'en' ? { translation: `Mock translation of: ${comment.trim()}` } : {}),
+    reason: isLead ? `Mock: ${intent} intent detected.` : 'Mock: general engagement.',
+    reply: isLead ? leadReply : thanks,
+    ...(language !== 'en' ? { replyEnglish: isLead ? REPLIES.en[0] : REPLIES.en[1] } : {})
+  });
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(JSON.stringify(body));
+};
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  if (req.method !== 'POST' || !req.url.includes(':generateContent')) {
+    return send(res, 404, { error: { message: `No mock for ${req.method} ${req.url}` } });
+  }
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      const body = JSON.parse(raw);
+      const prompt = body.contents.flatMap(c => c.parts.map(p => p.text)).join('\n');
+      send(res, 200, { candidates: [{ content: { role: 'model', parts: [{ text: classify(prompt) }] } }] });
+    } catch (error) {
+      send(res, 400, { error: { message: String(error) } });
+    }
+  });
+}).listen(PORT, () => {
+  console.log(`Mock Gemini listening on http://localhost:${PORT}`);
+});
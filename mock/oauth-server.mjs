@@ -0,0 +1,113 @@
+// Stand-in for Google's OAuth endpoints and `channels?mine=true` so the PKCE
+// sign-in can be tested end to end without a Google project. Run with
+// `npm run mock:oauth` and start the app with:
+//
+//   VITE_GOOGLE_CLIENT_ID=mock-client
+//   VITE_OAUTH_AUTH_URL=http://localhost:8788/authorize
+//   VITE_OAUTH_TOKEN_URL=http://localhost:8788/token
+//   VITE_OAUTH_REVOKE_URL=http://localhost:8788/revoke
+//   VITE_YOUTUBE_BASE_URL=http://localhost:8788
+//
+// The consent screen is skipped: /authorize redirects straight back with a code.
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 8788);
+const TOKEN_TTL_SECONDS = Number(process.env.TOKEN_TTL || 3600);
+
+const codes = new Map();        // code -> code_challenge
+const refreshTokens = new Set();
+const accessTokens = new Set();
+
+const base64Url = (buffer) => buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    ...headers
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise(resolve => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => resolve(new URLSearchParams(raw)));
+});
+
+const issueTokens = (withRefresh) => {
+  const accessToken = `mock-access-${randomUUID()}`;
+  accessTokens.add(accessToken);
+  const body = { access_token: accessToken, token_type: 'Bearer', expires_in: TOKEN_TTL_SECONDS };
+  if (withRefresh) {
+    const refreshToken = `mock-refresh-${randomUUID()}`;
+    refreshTokens.add(refreshToken);
+    body.refresh_token = refreshToken;
+  }
+  return body;
+};
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (req.method === 'GET' && url.pathname === '/authorize') {
+    const redirect = new URL(url.searchParams.get('redirect_uri'));
+    if (url.searchParams.get('code_challenge_method') !== 'S256') {
+      redirect.searchParams.set('error', 'invalid_request');
+    } else {
+      const code = randomUUID();
+      codes.set(code, url.searchParams.get('code_challenge'));
+      redirect.searchParams.set('code', code);
+    }
+    redirect.searchParams.set('state', url.searchParams.get('state') ?? '');
+    return send(res, 302, undefined, { Location: redirect.toString() });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/token') {
+    const params = await readBody(req);
+    if (params.get('grant_type') === 'authorization_code') {
+      const challenge = codes.get(params.get('code'));
+      codes.delete(params.get('code'));
+      const actual = base64Url(createHash('sha256').update(params.get('code_verifier') ?? '').digest());
+      if (!challenge || challenge !== actual) {
+        return send(res, 400, { error: 'invalid_grant', error_description: 'Bad code or PKCE verifier.' });
+      }
+      return send(res, 200, issueTokens(true));
+    }
+    if (params.get('grant_type') === 'refresh_token') {
+      if (!refreshTokens.has(params.get('refresh_token'))) {
+        return send(res, 400, { error: 'invalid_grant', error_description: 'Unknown refresh token.' });
+      }
+      return send(res, 200, issueTokens(false));
+    }
+    return send(res, 400, { error: 'unsupported_grant_type' });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/revoke') {
+    const token = (await readBody(req)).get('token');
+    refreshTokens.delete(token);
+    accessTokens.delete(token);
+    return send(res, 200, {});
+  }
+
+  if (req.method === 'GET' && url.pathname === '/youtube/v3/channels') {
+    const token = (req.headers.authorization ?? '').replace(/^Bearer /, '');
+    if (!accessTokens.has(token)) return send(res, 401, { error: { code: 401, message: 'Invalid credentials' } });
+    return send(res, 200, {
+      items: [{
+        id: 'UCmockChannel000000000000',
+        snippet: {
+          title: 'Mock Realty Channel',
+          thumbnails: { default: { url: 'https://api.dicebear.com/7.x/initials/svg?seed=MR' } }
+        }
+      }]
+    });
+  }
+
+  send(res, 404, { error: { message: `No mock for ${req.method} ${url.pathname}` } });
+}).listen(PORT, () => {
+  console.log(`Mock OAuth listening on http://localhost:${PORT}`);
+});
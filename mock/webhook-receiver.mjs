@@ -0,0 +1,37 @@
+// Logs every webhook POST so the CRM push can be checked without a real CRM.
+// Run with `npm run mock:webhook` and set the webhook URL in Settings to
+// http://localhost:8789/hook. Received payloads are listed at GET /hook.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT || 8789);
+const received = [];
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body, null, 2));
+};
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method === 'GET') return send(res, 200, received);
+  if (req.method !== 'POST') return send(res, 405, { error: 'POST only' });
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      const payload = JSON.parse(raw);
+      received.push({ path: req.url, payload });
+      console.log(`[${new Date().toISOString()}] ${payload.event} ${payload.lead?.author ?? ''} (score ${payload.lead?.score ?? '-'})`);
+      send(res, 200, { ok: true });
+    } catch {
+      send(res, 400, { error: 'Body must be JSON' });
+    }
+  });
+}).listen(PORT, () => {
+  console.log(`Mock webhook receiver listening on http://localhost:${PORT}/hook`);
+});
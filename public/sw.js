@@ -0,0 +1,91 @@
+// LeadStream service worker: caches the app shell for offline use, shows
+// hot-lead notifications and routes clicks back to the app.
+
+const SHELL_CACHE = 'leadstream-shell-v1';
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Hashed build files the page links to; the app only starts offline if
+// every one of them is cached
+const assetsOf = (html) =>
+  [...new Set([...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1]))];
+
+// Caches index.html together with the bundle it points to
+const cacheShell = async (cache, response) => {
+  const html = await response.clone().text();
+  await cache.addAll(assetsOf(html));
+  await cache.put('/index.html', response);
+};
+
+// On the first visit the bundle loads before the worker takes control, so it
+// is fetched again here rather than waiting for a later request to cache it
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_FILES);
+    await cacheShell(cache, await fetch('/index.html', { cache: 'reload' }));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// Navigations are network-first so a deploy shows up on the next online load;
+// hashed build assets never change, so they are served cache-first. API calls
+// (other origins) are left alone.
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        const response = await fetch(request);
+        if (response.ok) {
+          // A deploy changes the asset hashes; fetch the new bundle right away
+          const cache = await caches.open(SHELL_CACHE);
+          event.waitUntil(cacheShell(cache, response.clone()).catch(() => undefined));
+        }
+        return response;
+      } catch {
+        return (await caches.match('/index.html')) ?? Response.error();
+      }
+    })());
+    return;
+  }
+
+  if (url.pathname.startsWith('/assets/') || SHELL_FILES.includes(url.pathname)) {
+    event.respondWith((async () => {
+      const cached = await caches.match(request);
+      if (cached) return cached;
+      const response = await fetch(request);
+      if (response.ok) {
+        const cache = await caches.open(SHELL_CACHE);
+        cache.put(request, response.clone());
+      }
+      return response;
+    })());
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const commentId = event.notification.data?.commentId;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows[0];
+    if (client) {
+      await client.focus();
+      client.postMessage({ type: 'open-comment', commentId });
+    } else {
+      await self.clients.openWindow(`/?comment=${encodeURIComponent(commentId ?? '')}`);
+    }
+  })());
+});
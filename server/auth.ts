@@ -0,0 +1,49 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+
+// --- TEAM TOKENS ---
+// Every agent gets their own token (TEAM_TOKENS="Alex:s3cret,Sam:0ther").
+// The app sends it with each proxied request in `X-LeadStream-Token`, and as
+// `?token=` when opening the workspace socket, where browsers can't set
+// headers. The token also tells the server who is calling.
+
+export interface TeamMember {
+  member: string;
+  token: string;
+}
+
+export const TOKEN_HEADER = 'x-leadstream-token';
+
+// "Alex:s3cret, Sam:0ther" -> one entry per agent; names may contain spaces
+export const parseTeamTokens = (value: string): TeamMember[] =>
+  value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.lastIndexOf(':');
+      return { member: entry.slice(0, separator).trim(), token: entry.slice(separator + 1).trim() };
+    })
+    .filter(({ member, token }) => member && token);
+
+// Hashing first gives equal lengths, which timingSafeEqual needs
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+export const createTokenCheck = (members: TeamMember[]) => {
+  const known = members.map(m => ({ member: m.member, digest: digest(m.token) }));
+
+  // Name of the agent the token belongs to, or null for a missing or unknown token
+  const memberFor = (token: string | null | undefined) => {
+    if (!token) return null;
+    const given = digest(token);
+    return known.find(m => timingSafeEqual(m.digest, given))?.member ?? null;
+  };
+
+  return {
+    memberFor,
+    memberForRequest: (req: IncomingMessage) => {
+      const header = req.headers[TOKEN_HEADER];
+      return memberFor(Array.isArray(header) ? header[0] : header);
+    }
+  };
+};
@@ -0,0 +1,37 @@
+// --- RESPONSE CACHE ---
+// In-memory TTL cache for upstream responses. Oldest entries are dropped
+// once the cache is full.
+
+export interface CachedResponse {
+  status: number;
+  body: string;
+}
+
+interface Entry {
+  value: CachedResponse;
+  expiresAt: number;
+}
+
+const MAX_ENTRIES = 500;
+
+export const createCache = () => {
+  const entries = new Map<string, Entry>();
+
+  return {
+    get: (key: string): CachedResponse | undefined => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+    set: (key: string, value: CachedResponse, ttlMs: number) => {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      if (entries.size > MAX_ENTRIES) entries.delete(entries.keys().next().value as string);
+    },
+    size: () => entries.size
+  };
+};
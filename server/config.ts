@@ -0,0 +1,30 @@
+import { parseTeamTokens } from './auth';
+
+// --- SERVER CONFIG ---
+// Read once from the environment. Keys live here instead of in every
+// agent's browser; see README for the full list.
+
+export const config = {
+  port: Number(process.env.PORT || 8790),
+  // Origin of the app, e.g. https://leads.example.com; defaults to `npm run dev`
+  allowedOrigin: process.env.ALLOWED_ORIGIN || 'http://localhost:5173',
+  // Who may use the proxy; the server won't start without at least one
+  teamTokens: parseTeamTokens(process.env.TEAM_TOKENS ?? ''),
+  geminiApiKey: process.env.GEMINI_API_KEY ?? '',
+  // The only model the proxy forwards to; must match the app's VITE_GEMINI_MODEL
+  geminiModel: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+  // Used for read-only YouTube calls made without a user's OAuth token
+  youtubeApiKey: process.env.YOUTUBE_API_KEY ?? '',
+  // Web application OAuth client; the secret is added to code exchanges
+  // and refreshes so it never reaches the browser
+  googleClientId: process.env.GOOGLE_CLIENT_ID ?? '',
+  googleClientSecret: process.env.GOOGLE_CLIENT_SECRET ?? '',
+  youtubeDailyQuota: Number(process.env.YOUTUBE_DAILY_QUOTA || 10000),
+  quotaFile: process.env.QUOTA_FILE || '.leadstream-quota.json',
+  // Shared team workspaces (comments, assignments, activity)
+  workspaceFile: process.env.WORKSPACE_FILE || '.leadstream-workspaces.json',
+  // Upstream hosts; point these at the mock servers to run fully offline
+  geminiBaseUrl: (process.env.GEMINI_BASE_URL || 'https://generativelanguage.googleapis.com').replace(/\/$/, ''),
+  youtubeBaseUrl: (process.env.YOUTUBE_BASE_URL || 'https://www.googleapis.com').replace(/\/$/, ''),
+  oauthTokenUrl: process.env.OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token'
+};
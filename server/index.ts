@@ -0,0 +1,202 @@
+// LeadStream API proxy. Holds the Gemini and YouTube keys server-side,
+// caches upstream responses and enforces the daily YouTube quota. Run with
+// `npm run server` and start the app with VITE_API_PROXY_URL=http://localhost:8790.
+//
+// Paths mirror the upstream APIs, so the app only swaps its base URL. All of
+// them except /api/health need a team token, see auth.ts.
+//   /youtube/v3/*                         -> YouTube Data API
+//   /v1beta/models/<model>:generateContent -> Gemini, for GEMINI_MODEL only
+//   /oauth/token                          -> Google token endpoint, with the client secret added
+//   /api/quota                            -> today's usage
+//   /workspace?workspace=<name>&token=<token> (WebSocket) -> shared team state, see workspace.ts
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash } from 'node:crypto';
+import { config } from './config';
+import { TOKEN_HEADER, createTokenCheck } from './auth';
+import { createCache } from './cache';
+import type { CachedResponse } from './cache';
+import { createQuotaTracker, youtubeCost } from './quota';
+import { createWorkspaceHub } from './workspace';
+
+const cache = createCache();
+const quota = createQuotaTracker(config.quotaFile, config.youtubeDailyQuota);
+const workspaces = createWorkspaceHub(config.workspaceFile);
+const tokens = createTokenCheck(config.teamTokens);
+
+const MINUTE = 60 * 1000;
+
+// Prompts with a full knowledge base stay well below this
+const MAX_BODY_BYTES = 256 * 1024;
+
+// Thrown for requests that are rejected before reaching upstream
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Comments change often; video titles and channel details hardly ever
+const youtubeTtl = (path: string) => {
+  if (path.startsWith('/youtube/v3/videos')) return 60 * MINUTE;
+  if (path.startsWith('/youtube/v3/channels')) return 10 * MINUTE;
+  return MINUTE;
+};
+const GEMINI_TTL = 60 * MINUTE;
+
+const send = (res: ServerResponse, status: number, body: string, headers: Record<string, string> = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': config.allowedOrigin,
+    'Access-Control-Allow-Headers': `Authorization, Content-Type, ${TOKEN_HEADER}`,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    ...headers
+  });
+  res.end(body);
+};
+
+// Same shape as Google's errors, so the app's error handling (and the
+// scheduler's quota back-off) works unchanged
+const sendError = (res: ServerResponse, status: number, message: string, reason?: string) =>
+  send(res, status, JSON.stringify({ error: { code: status, message, errors: reason ? [{ reason }] : [] } }));
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    // Past the limit the rest is read and dropped, so the 413 still gets out
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) reject(new HttpError(413, 'Request body is too large.'));
+      else chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const hash = (...parts: string[]) => createHash('sha256').update(parts.join('\n')).digest('hex');
+
+const forward = async (url: string, init: RequestInit): Promise<CachedResponse> => {
+  const response = await fetch(url, init);
+  return { status: response.status, body: await response.text() };
+};
+
+const proxyYoutube = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  const method = req.method ?? 'GET';
+  const authorization = req.headers.authorization;
+  const upstream = new URL(`${config.youtubeBaseUrl}${url.pathname}${url.search}`);
+  if (!authorization) {
+    if (!config.youtubeApiKey) return sendError(res, 401, 'Sign in with Google or set YOUTUBE_API_KEY on the server.');
+    upstream.searchParams.set('key', config.youtubeApiKey);
+  }
+
+  // Cached per user: the same URL returns different data for different tokens
+  const cacheKey = method === 'GET' ? hash(upstream.toString(), authorization ?? '') : '';
+  const cached = cacheKey ? cache.get(cacheKey) : undefined;
+  if (cached) return send(res, cached.status, cached.body, { 'X-Cache': 'HIT' });
+
+  const cost = youtubeCost(method);
+  if (!quota.canSpendYoutube(cost)) {
+    return sendError(res, 403, 'The LeadStream server has used up today\'s YouTube quota.', 'quotaExceeded');
+  }
+
+  const body = method === 'GET' ? undefined : await readBody(req);
+  const result = await forward(upstream.toString(), {
+    method,
+    headers: {
+      ...(authorization ? { Authorization: authorization } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    body: body || undefined
+  });
+  quota.spendYoutube(cost);
+
+  if (cacheKey && result.status === 200) cache.set(cacheKey, result, youtubeTtl(url.pathname));
+  send(res, result.status, result.body, { 'X-Cache': 'MISS' });
+};
+
+const proxyGemini = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  if (req.method !== 'POST') return sendError(res, 405, 'Use POST.');
+  if (url.pathname !== `/v1beta/models/${config.geminiModel}:generateContent`) {
+    return sendError(res, 404, `Only ${config.geminiModel}:generateContent is available.`);
+  }
+  if (!config.geminiApiKey) return sendError(res, 503, 'GEMINI_API_KEY is not set on the server.');
+
+  const body = await readBody(req);
+  const cacheKey = hash(url.pathname, body);
+  const cached = cache.get(cacheKey);
+  if (cached) return send(res, cached.status, cached.body, { 'X-Cache': 'HIT' });
+
+  // Whatever key the browser sent is ignored
+  const upstream = `${config.geminiBaseUrl}${url.pathname}?key=${encodeURIComponent(config.geminiApiKey)}`;
+  const result = await forward(upstream, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+  quota.countGemini();
+
+  if (result.status === 200) cache.set(cacheKey, result, GEMINI_TTL);
+  send(res, result.status, result.body, { 'X-Cache': 'MISS' });
+};
+
+// Code exchanges and refreshes for the app's sign-in. Only the two grants the
+// app uses are forwarded; nothing is cached or counted.
+const proxyToken = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== 'POST') return sendError(res, 405, 'Use POST.');
+  if (!config.googleClientSecret) return sendError(res, 503, 'GOOGLE_CLIENT_SECRET is not set on the server.');
+
+  const params = new URLSearchParams(await readBody(req));
+  const grant = params.get('grant_type');
+  if (grant !== 'authorization_code' && grant !== 'refresh_token') {
+    return send(res, 400, JSON.stringify({ error: 'unsupported_grant_type' }));
+  }
+  params.set('client_id', config.googleClientId || params.get('client_id') || '');
+  params.set('client_secret', config.googleClientSecret);
+
+  const result = await forward(config.oauthTokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params.toString()
+  });
+  send(res, result.status, result.body);
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, '');
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+  try {
+    if (url.pathname === '/api/health') return send(res, 200, JSON.stringify({ ok: true }));
+    if (!tokens.memberForRequest(req)) return sendError(res, 401, 'Missing or unknown team token.');
+    if (url.pathname.startsWith('/youtube/v3/')) return await proxyYoutube(req, res, url);
+    if (url.pathname.startsWith('/v1beta/models/')) return await proxyGemini(req, res, url);
+    if (url.pathname === '/oauth/token') return await proxyToken(req, res);
+    if (url.pathname === '/api/quota') return send(res, 200, JSON.stringify({ ...quota.usage(), cacheEntries: cache.size() }));
+    sendError(res, 404, `No route for ${req.method} ${url.pathname}`);
+  } catch (error) {
+    if (error instanceof HttpError) return sendError(res, error.status, error.message);
+    console.error(`${req.method} ${url.pathname} failed.`, error);
+    sendError(res, 502, `Upstream request failed: ${error instanceof Error ? error.message : error}`);
+  }
+});
+
+// Browsers don't apply CORS to WebSockets, so the origin is checked here
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  const originAllowed = !req.headers.origin || req.headers.origin === config.allowedOrigin;
+  const member = tokens.memberFor(url.searchParams.get('token'));
+  if (url.pathname === '/workspace' && originAllowed && member) {
+    return workspaces.handleUpgrade(req, socket, head, member);
+  }
+  socket.destroy();
+});
+
+if (!config.teamTokens.length) {
+  console.error('TEAM_TOKENS is not set. Give every agent a token, e.g. TEAM_TOKENS="Alex:<secret>,Sam:<secret>".');
+  process.exit(1);
+}
+
+server.listen(config.port, () => {
+  console.log(`LeadStream proxy listening on http://localhost:${config.port}`);
+  if (!config.geminiApiKey) console.warn('GEMINI_API_KEY is not set; analysis requests will fail.');
+});
@@ -0,0 +1,56 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+
+// --- DAILY QUOTA ---
+// YouTube resets quotas at midnight Pacific, so usage is bucketed by the
+// Pacific calendar day. Persisted to a small JSON file so a restart doesn't
+// forget what was already spent.
+
+export interface QuotaUsage {
+  // yyyy-mm-dd in America/Los_Angeles
+  day: string;
+  youtubeUnits: number;
+  geminiRequests: number;
+}
+
+// Reads cost 1 unit; writes (insert, setModerationStatus, ...) cost 50
+export const youtubeCost = (method: string) => method === 'GET' ? 1 : 50;
+
+const pacificDay = (now = new Date()) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Los_Angeles' }).format(now);
+
+const emptyUsage = (): QuotaUsage => ({ day: pacificDay(), youtubeUnits: 0, geminiRequests: 0 });
+
+export const createQuotaTracker = (file: string, youtubeLimit: number) => {
+  let usage: QuotaUsage;
+  try {
+    usage = JSON.parse(readFileSync(file, 'utf8')) as QuotaUsage;
+  } catch {
+    usage = emptyUsage();
+  }
+
+  const current = () => {
+    if (usage.day !== pacificDay()) usage = emptyUsage();
+    return usage;
+  };
+
+  const save = () => {
+    try {
+      writeFileSync(file, JSON.stringify(usage));
+    } catch (error) {
+      console.error('Failed to persist quota usage.', error);
+    }
+  };
+
+  return {
+    usage: () => ({ ...current(), youtubeLimit }),
+    canSpendYoutube: (units: number) => current().youtubeUnits + units <= youtubeLimit,
+    spendYoutube: (units: number) => {
+      current().youtubeUnits += units;
+      save();
+    },
+    countGemini: () => {
+      current().geminiRequests += 1;
+      save();
+    }
+  };
+};
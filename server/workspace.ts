@@ -0,0 +1,188 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+
+// --- TEAM WORKSPACES ---
+// Shared comment state for a team, synced over a WebSocket at /workspace.
+// The server doesn't interpret comments: clients insert the ones they sync
+// and send patches for triage changes, and every change is broadcast to the
+// rest of the workspace. State is kept in memory and saved to a JSON file.
+// Only agents with a team token get this far (see index.ts), and their name
+// comes from the token, not from the client.
+//
+// Client -> server
+//   { type: 'upsert', comments }                  insert comments not seen yet
+//   { type: 'patch', commentId, patch, action? }  merge fields (null clears one), log `action`
+//   { type: 'presence', commentId, state }         viewing / drafting / null
+// Server -> client
+//   { type: 'snapshot', member, comments, activity, presence, members }
+//   { type: 'comments', comments }
+//   { type: 'activity', entry }
+//   { type: 'presence', presence, members }
+
+type SharedComment = { id: string } & Record<string, unknown>;
+
+interface ActivityEntry {
+  id: string;
+  commentId: string;
+  member: string;
+  action: string;
+  at: string;
+}
+
+interface PresenceEntry {
+  memberId: string;
+  member: string;
+  commentId: string;
+  state: 'viewing' | 'drafting';
+}
+
+interface Workspace {
+  comments: Record<string, SharedComment>;
+  activity: ActivityEntry[];
+  members: string[];
+}
+
+interface Client {
+  socket: WebSocket;
+  workspace: string;
+  memberId: string;
+  member: string;
+  presence?: PresenceEntry;
+}
+
+type ClientMessage =
+  | { type: 'upsert'; comments: SharedComment[] }
+  | { type: 'patch'; commentId: string; patch: Record<string, unknown>; action?: string }
+  | { type: 'presence'; commentId: string | null; state?: PresenceEntry['state'] };
+
+// Older entries are dropped; the log is for "who did what lately"
+const MAX_ACTIVITY = 5000;
+const SAVE_DELAY_MS = 1000;
+
+export const createWorkspaceHub = (file: string) => {
+  let workspaces: Record<string, Workspace> = {};
+  try {
+    workspaces = JSON.parse(readFileSync(file, 'utf8'));
+  } catch {
+    workspaces = {};
+  }
+
+  let saveTimer: ReturnType<typeof setTimeout> | undefined;
+  const scheduleSave = () => {
+    clearTimeout(saveTimer);
+    saveTimer = setTimeout(() => {
+      try {
+        writeFileSync(file, JSON.stringify(workspaces));
+      } catch (error) {
+        console.error('Failed to save workspaces.', error);
+      }
+    }, SAVE_DELAY_MS);
+  };
+
+  const workspaceFor = (name: string) =>
+    workspaces[name] ??= { comments: {}, activity: [], members: [] };
+
+  const clients = new Set<Client>();
+  const wss = new WebSocketServer({ noServer: true });
+
+  const send = (client: Client, message: unknown) => {
+    if (client.socket.readyState === client.socket.OPEN) client.socket.send(JSON.stringify(message));
+  };
+
+  const broadcast = (workspace: string, message: unknown, except?: Client) =>
+    clients.forEach(client => {
+      if (client.workspace === workspace && client !== except) send(client, message);
+    });
+
+  const presenceOf = (workspace: string) =>
+    [...clients].filter(c => c.workspace === workspace && c.presence).map(c => c.presence as PresenceEntry);
+
+  const broadcastPresence = (workspace: string) =>
+    broadcast(workspace, { type: 'presence', presence: presenceOf(workspace), members: workspaceFor(workspace).members });
+
+  const logActivity = (client: Client, commentId: string, action: string) => {
+    const state = workspaceFor(client.workspace);
+    const entry: ActivityEntry = { id: randomUUID(), commentId, member: client.member, action, at: new Date().toISOString() };
+    state.activity.push(entry);
+    if (state.activity.length > MAX_ACTIVITY) state.activity.splice(0, state.activity.length - MAX_ACTIVITY);
+    broadcast(client.workspace, { type: 'activity', entry });
+  };
+
+  const handleMessage = (client: Client, message: ClientMessage) => {
+    const state = workspaceFor(client.workspace);
+
+    if (message.type === 'upsert') {
+      const inserted = message.comments.filter(c => c?.id && !state.comments[c.id]);
+      if (!inserted.length) return;
+      inserted.forEach(c => { state.comments[c.id] = c; });
+      broadcast(client.workspace, { type: 'comments', comments: inserted }, client);
+      scheduleSave();
+    }
+
+    if (message.type === 'patch') {
+      const current = state.comments[message.commentId];
+      if (!current) return;
+      const next: SharedComment = { ...current, ...message.patch, id: current.id };
+      Object.keys(message.patch).forEach(key => { if (next[key] === null) delete next[key]; });
+      state.comments[current.id] = next;
+      broadcast(client.workspace, { type: 'comments', comments: [next] }, client);
+      if (message.action) logActivity(client, current.id, message.action);
+      scheduleSave();
+    }
+
+    if (message.type === 'presence') {
+      client.presence = message.commentId && message.state
+        ? { memberId: client.memberId, member: client.member, commentId: message.commentId, state: message.state }
+        : undefined;
+      broadcastPresence(client.workspace);
+    }
+  };
+
+  wss.on('connection', (socket: WebSocket, request: IncomingMessage, member: string) => {
+    const params = new URL(request.url ?? '/', 'http://localhost').searchParams;
+    const client: Client = {
+      socket,
+      workspace: params.get('workspace') || 'default',
+      memberId: params.get('memberId') || randomUUID(),
+      member
+    };
+    clients.add(client);
+
+    const state = workspaceFor(client.workspace);
+    if (!state.members.includes(client.member)) {
+      state.members.push(client.member);
+      scheduleSave();
+    }
+    send(client, {
+      type: 'snapshot',
+      member: client.member,
+      comments: Object.values(state.comments),
+      activity: state.activity,
+      presence: presenceOf(client.workspace),
+      members: state.members
+    });
+    broadcastPresence(client.workspace);
+
+    socket.on('message', raw => {
+      try {
+        handleMessage(client, JSON.parse(raw.toString()) as ClientMessage);
+      } catch (error) {
+        console.error('Bad workspace message.', error);
+      }
+    });
+    socket.on('close', () => {
+      clients.delete(client);
+      broadcastPresence(client.workspace);
+    });
+  });
+
+  return {
+    // `member` is the name the caller's team token belongs to
+    handleUpgrade: (request: IncomingMessage, socket: Duplex, head: Buffer, member: string) =>
+      wss.handleUpgrade(request, socket, head, ws => wss.emit('connection', ws, request, member))
+  };
+};
@@ -1,7 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { 
   MessageSquare, 
-  ThumbsUp, 
   Settings, 
   ExternalLink, 
   Copy, 
@@ -9,77 +8,150 @@ import {
   RefreshCw,
   Flame,
   Sparkles,
-  ChevronRight
+  ChevronRight,
+  Send,
+  LogIn,
+  LogOut,
+  ArrowUpDown,
+  KanbanSquare,
+  MessagesSquare,
+  Bell,
+  Search,
+  SlidersHorizontal,
+  Bookmark,
+  X,
+  CheckSquare,
+  BarChart3,
+  ShieldAlert,
+  Eye,
+  PenLine,
+  UserCheck,
+  Languages,
+  AlertTriangle
 } from 'lucide-react';
+import { INTENT_LABELS, PLATFORM_LABELS } from './types';
+import type { Comment, ActivityEntry, AIAnalysisResult, AgentProfile, CommentFilters, IgnoredAuthor, KnowledgeBase, LeadEntities, LeadRecord, ModerationFlag, ModerationStatus, PipelineStage, Platform, PresenceEntry, ReplyTemplate, SavedView, SortOrder, SourceConfig } from './types';
+import { createGeminiClient } from './services/gemini';
+import { analyzeComment, cannedReply, commenterText, extractEntities, mapWithLimit, ANALYSIS_CONCURRENCY, LEAD_SCORE_THRESHOLD } from './services/analysis';
+import { detectLanguage, isEnglish, languageName } from './services/language';
+import type { ConversationContext } from './services/analysis';
+import { newMessages, replyStatusFor } from './services/threads';
+import { fetchMyChannel, mergeComments, newestPublishedAt, DEFAULT_MAX_PAGES } from './services/youtube';
+import type { ChannelInfo } from './services/youtube';
+import { COMMENT_SOURCES, loadSources, saveSources, sourceIdFor } from './services/sources';
+import type { SourceComment } from './services/sources';
+import { completeSignIn, getAccessToken, hasSession, isOAuthConfigured, signOut, startSignIn } from './services/auth';
+import { commentRepository } from './services/commentStore';
+import { changeStage, isInPipeline, leadRecordFor } from './services/pipeline';
+import { Badge, Card, ModerationBadge } from './components/ui';
+import { LeadPanel } from './components/LeadPanel';
+import { PipelineBoard } from './components/PipelineBoard';
+import { ExportMenu } from './components/ExportMenu';
+import { AgentProfileCard, TemplateLibraryCard } from './components/TemplateSettings';
+import { KnowledgeBaseCard } from './components/KnowledgeSettings';
+import { PlatformIcon, SourceSettings } from './components/SourceSettings';
+import { ThreadView } from './components/ThreadView';
+import { FilterPanel } from './components/FilterPanel';
+import { BatchBar } from './components/BatchBar';
+import { IgnoredAuthorsCard } from './components/IgnoredAuthorsCard';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { ModerationPanel } from './components/ModerationPanel';
+import { TeamSettingsCard } from './components/TeamSettings';
+import { TeamPanel } from './components/TeamPanel';
+import { detectModeration, flagDuplicates, isFlagged, FLAGGED_MAX_SCORE } from './services/moderation';
+import { fetchProxyUsage, isProxyEnabled, loadServerToken, saveServerToken } from './services/proxy';
+import type { ProxyUsage } from './services/proxy';
+import { ignoreAuthors, isIgnored, loadIgnoredAuthors } from './services/batch';
+import type { BatchSnapshot } from './services/batch';
+import { exportComments } from './services/export';
+import { EMPTY_FILTERS, activeFilterCount, applyFilters, isViewActive, loadViews, sortComments } from './services/filters';
+import { fillTemplate, loadProfile, loadTemplates, rankTemplates } from './services/templates';
+import { buildGrounding, checkReply, loadKnowledge } from './services/knowledge';
+import { buildLeadPayload, sendWebhook } from './services/webhook';
+import { DEFAULT_SYNC_INTERVAL_MINUTES, startSyncScheduler } from './services/scheduler';
+import { DEFAULT_NOTIFY_THRESHOLD, notificationsSupported, notifyHotLeads, onNotificationOpen, requestNotificationPermission } from './services/notifications';
+import type { WebhookEvent } from './services/webhook';
+import { enqueue, isNetworkError, isOffline, loadOutbox, replayOutbox } from './services/outbox';
+import type { OutboxItem } from './services/outbox';
+import { connectWorkspace, describeChange, loadTeamConfig, othersOn, saveTeamConfig } from './services/team';
+import type { TeamConfig, TeamStatus, WorkspaceConnection, WorkspaceSnapshot } from './services/team';
 
-// --- INTERFACES ---
-
-interface Comment {
-  id: string;
-  authorDisplayName: string;
-  textDisplay: string;
-  videoTitle: string;
-  publishedAt: string;
-  isLead: boolean;
-  analysis: string;
-  suggestedReply: string;
-  replied: boolean;
-  thumbnail: string;
-}
+// --- CONSTANTS ---
 
-interface AIAnalysisResult {
-  isLead: boolean;
-  reason: string;
-  reply: string;
-}
+const ENTITY_LABELS: [keyof LeadEntities, string][] = [
+  ['budget', 'Budget'],
+  ['timeline', 'Timeline'],
+  ['location', 'Location'],
+  ['email', 'Email'],
+  ['phone', 'Phone']
+];
 
-// --- COMPONENTS ---
+const PLATFORM_TAG_STYLES: Record<Platform, string> = {
+  youtube: 'bg-red-100 text-red-600',
+  facebook: 'bg-blue-100 text-blue-700'
+};
 
-const Card = ({ children, className = "" }: { children: React.ReactNode; className?: string }) => (
-  <div className={`bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden ${className}`}>
-    {children}
-  </div>
-);
+// Link to the video or post a comment was left on
+const contextLink = (comment: Comment) =>
+  comment.videoId ? `https://www.youtube.com/watch?v=${comment.videoId}` : comment.permalink;
 
-const Badge = ({ type }: { type: 'lead' | 'general' }) => {
-  if (type === 'lead') {
-    return (
-      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800 border border-orange-200">
-        <Flame className="w-3 h-3 mr-1" />
-        Potential Lead
-      </span>
-    );
-  }
-  return (
-    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600 border border-gray-200">
-      <ThumbsUp className="w-3 h-3 mr-1" />
-      General
-    </span>
-  );
-};
+const analysisFields = (result: AIAnalysisResult): Pick<Comment, 'isLead' | 'leadScore' | 'intent' | 'entities' | 'moderation' | 'language' | 'translation' | 'analysis' | 'suggestedReply' | 'suggestedReplyEnglish'> => ({
+  isLead: result.isLead,
+  leadScore: result.score,
+  intent: result.intent,
+  entities: result.entities,
+  moderation: result.moderation,
+  language: result.language,
+  translation: result.translation,
+  analysis: result.reason,
+  suggestedReply: result.reply,
+  suggestedReplyEnglish: result.replyEnglish
+});
 
 // --- MOCK DATA FOR DEMO MODE ---
 
 const MOCK_COMMENTS: Comment[] = [
   {
     id: 'c1',
+    platform: 'youtube',
+    sourceId: 'demo',
     authorDisplayName: 'Sarah Jenkins',
     textDisplay: 'Great video! I am actually looking to move to the area next month. Do you have a list of recommended buyer agents?',
     videoTitle: 'Top 5 Neighborhoods in 2024',
-    publishedAt: new Date().toISOString(),
+    publishedAt: new Date(Date.now() - 3600000).toISOString(),
+    thread: [
+      {
+        id: 'c1-r1',
+        authorDisplayName: 'Sarah Jenkins',
+        textDisplay: "We're pre-approved up to $650k if that helps!",
+        publishedAt: new Date().toISOString(),
+        thumbnail: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Sarah',
+        fromOwner: false
+      }
+    ],
     isLead: true,
+    leadScore: 75,
+    intent: 'agent_referral',
+    entities: { timeline: 'next month', budget: '$650k' },
+    moderation: 'clean',
     analysis: "User explicitly states intent to move and asks for agent recommendations.",
-    suggestedReply: "Hi Sarah! Thanks for watching. I'd love to help you find the perfect spot. I have a trusted list of agents I work with. Could you email me at [Email] or DM me on Instagram so I can send that over?",
+    suggestedReply: "Hi {firstName}! Thanks for watching. I'd love to help you find the perfect spot. I have a trusted list of agents I work with. Could you email me at {email} or DM me on Instagram {instagram} so I can send that over?",
     replied: false,
     thumbnail: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Sarah'
   },
   {
     id: 'c2',
+    platform: 'youtube',
+    sourceId: 'demo',
     authorDisplayName: 'Mike_Gaming_99',
     textDisplay: 'First!! Love the editing on this one.',
     videoTitle: 'House Tour: $2M Modern Farmhouse',
     publishedAt: new Date(Date.now() - 86400000).toISOString(),
     isLead: false,
+    leadScore: 5,
+    intent: 'other',
+    entities: {},
+    moderation: 'clean',
     analysis: "General compliment about video editing.",
     suggestedReply: "Thanks Mike! Appreciate the support.",
     replied: true,
@@ -87,15 +159,81 @@ const MOCK_COMMENTS: Comment[] = [
   },
   {
     id: 'c3',
+    platform: 'youtube',
+    sourceId: 'demo',
     authorDisplayName: 'InvestWithTom',
     textDisplay: 'What is the cap rate you usually see for duplexes in this zip code? Im looking to invest around $500k.',
     videoTitle: 'Investment Property Guide',
     publishedAt: new Date(Date.now() - 172800000).toISOString(),
     isLead: true,
+    leadScore: 85,
+    intent: 'investor',
+    entities: { budget: '$500k', location: 'this zip code' },
+    moderation: 'clean',
     analysis: "User is an investor asking for specific financial metrics (cap rate) with a budget.",
-    suggestedReply: "Great question Tom. In this zip, we're seeing around 5-6% for turnkey duplexes. I have a spreadsheet of recent comps. Shoot me an email and we can discuss your $500k target specifically.",
+    suggestedReply: "Great question {firstName}. Cap rates swing a lot from street to street, so I'd rather send you recent comps than guess. Email me at {email} and we can look at your $500k target specifically.",
     replied: false,
     thumbnail: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Tom'
+  },
+  {
+    id: 'c4',
+    platform: 'youtube',
+    sourceId: 'demo',
+    authorDisplayName: 'Investing With Grace',
+    textDisplay: 'I was about to give up on real estate until Mrs. Linda Carter showed me crypto trading, now I make $12k a week! Reach her on WhatsApp +1 555 203 4411',
+    videoTitle: 'Investment Property Guide',
+    publishedAt: new Date(Date.now() - 7200000).toISOString(),
+    isLead: false,
+    leadScore: 0,
+    intent: 'other',
+    entities: {},
+    moderation: 'scam',
+    analysis: "Fake testimonial pushing viewers to a WhatsApp contact.",
+    suggestedReply: '',
+    replied: false,
+    thumbnail: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Grace'
+  },
+  {
+    id: 'c5',
+    platform: 'youtube',
+    sourceId: 'demo',
+    authorDisplayName: 'Lucía Fernández',
+    textDisplay: 'Estoy buscando comprar una casa en esta zona para el próximo verano. ¿Me puede ayudar?',
+    videoTitle: 'Top 5 Neighborhoods in 2024',
+    publishedAt: new Date(Date.now() - 5400000).toISOString(),
+    isLead: true,
+    leadScore: 70,
+    intent: 'buyer',
+    entities: { timeline: 'next summer' },
+    moderation: 'clean',
+    language: 'es',
+    translation: "I'm looking to buy a house in this area next summer. Can you help me?",
+    analysis: "Wants to buy in the area with a clear timeline and asks for help.",
+    suggestedReply: "¡Hola {firstName}! Con gusto te ayudo a encontrar casa en la zona. Escríbeme a {email} o agenda una llamada aquí: {calendarLink}",
+    suggestedReplyEnglish: "Hi {firstName}! Happy to help you find a home in the area. Email me at {email} or book a call here: {calendarLink}",
+    replied: false,
+    thumbnail: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Lucia'
+  },
+  {
+    id: 'c6',
+    platform: 'youtube',
+    sourceId: 'demo',
+    authorDisplayName: 'Wei Zhang',
+    textDisplay: '我们想在这个区买一套三居室，预算大概80万美元，明年搬过来。可以联系你吗？',
+    videoTitle: 'House Tour: $2M Modern Farmhouse',
+    publishedAt: new Date(Date.now() - 10800000).toISOString(),
+    isLead: true,
+    leadScore: 82,
+    intent: 'buyer',
+    entities: { budget: '$800k', timeline: 'next year' },
+    moderation: 'clean',
+    language: 'zh',
+    translation: "We'd like to buy a three-bedroom in this area, budget around $800k, moving here next year. Can we contact you?",
+    analysis: "Buyer with a budget, timeline and home size who asks to get in touch.",
+    suggestedReply: "{firstName}您好！很乐意帮您在这个区找三居室。请发邮件到 {email}，或在这里预约通话：{calendarLink}",
+    suggestedReplyEnglish: "Hi {firstName}! Happy to help you find a three-bedroom in this area. Email me at {email} or book a call here: {calendarLink}",
+    replied: false,
+    thumbnail: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Wei'
   }
 ];
 
@@ -103,128 +241,767 @@ const MOCK_COMMENTS: Comment[] = [
 
 export default function App() {
   // State
-  const [activeTab, setActiveTab] = useState<'inbox' | 'replied' | 'settings'>('inbox');
+  const [activeTab, setActiveTab] = useState<'inbox' | 'replied' | 'pipeline' | 'analytics' | 'settings'>('inbox');
   const [comments, setComments] = useState<Comment[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedComment, setSelectedComment] = useState<Comment | null>(null);
-  const [filter, setFilter] = useState<'all' | 'leads'>('all');
+  const [filters, setFilters] = useState<CommentFilters>(EMPTY_FILTERS);
+  const [sortBy, setSortBy] = useState<SortOrder>('date');
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [views, setViews] = useState<SavedView[]>(loadViews);
+
+  // Multi-select on the list cards
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [batchBusy, setBatchBusy] = useState(false);
+  const [lastBatch, setLastBatch] = useState<BatchSnapshot | null>(null);
+  const [ignoredAuthors, setIgnoredAuthors] = useState<IgnoredAuthor[]>(loadIgnoredAuthors);
+  const [posting, setPosting] = useState(false);
+  const [moderating, setModerating] = useState(false);
   
   // Settings State
-  const [apiKeyYoutube, setApiKeyYoutube] = useState('');
-  const [apiKeyGemini, setApiKeyGemini] = useState('');
-  const [channelId, setChannelId] = useState('');
-  const [isDemoMode, setIsDemoMode] = useState(true);
+  const [apiKeyGemini, setApiKeyGemini] = useState(() => localStorage.getItem('leadstream_gem_key') ?? '');
+  const [serverToken, setServerToken] = useState(loadServerToken);
+  const [sources, setSources] = useState<SourceConfig[]>(loadSources);
+  const [isDemoMode, setIsDemoMode] = useState(() => localStorage.getItem('leadstream_demo_mode') !== 'false');
+  const [account, setAccount] = useState<ChannelInfo | null>(() => {
+    const stored = localStorage.getItem('leadstream_account');
+    return stored && hasSession() ? JSON.parse(stored) : null;
+  });
+  const [webhookUrl, setWebhookUrl] = useState(() => localStorage.getItem('leadstream_webhook_url') ?? '');
+  const [profile, setProfile] = useState<AgentProfile>(loadProfile);
+  const [templates, setTemplates] = useState<ReplyTemplate[]>(loadTemplates);
+  const [knowledge, setKnowledge] = useState<KnowledgeBase>(loadKnowledge);
+  const [maxPages, setMaxPages] = useState(() => Number(localStorage.getItem('leadstream_max_pages')) || DEFAULT_MAX_PAGES);
+  const [syncInterval, setSyncInterval] = useState(() => Number(localStorage.getItem('leadstream_sync_interval') ?? DEFAULT_SYNC_INTERVAL_MINUTES));
+  const [notifyThreshold, setNotifyThreshold] = useState(() => Number(localStorage.getItem('leadstream_notify_threshold')) || DEFAULT_NOTIFY_THRESHOLD);
+  const [proxyUsage, setProxyUsage] = useState<ProxyUsage | null>(null);
+  const [notifyPermission, setNotifyPermission] = useState(() => notificationsSupported() ? Notification.permission : 'denied');
+
+  // Background sync bookkeeping: comments that arrived while the tab was
+  // hidden, and a comment to open once it is loaded (notification click)
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [pendingOpenId, setPendingOpenId] = useState(() => new URLSearchParams(window.location.search).get('comment'));
+  const syncing = useRef(false);
+  const backgroundSync = useRef<() => Promise<void>>(async () => {});
+
+  // Offline support: connectivity and the number of changes waiting to be sent
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [outboxCount, setOutboxCount] = useState(() => loadOutbox().length);
+  const replaying = useRef(false);
+  const outboxReplay = useRef<() => Promise<void>>(async () => {});
 
-  // Load settings on mount
+  // Shared team workspace, connected in live mode only
+  const [teamConfig, setTeamConfig] = useState<TeamConfig | null>(loadTeamConfig);
+  const [teamStatus, setTeamStatus] = useState<TeamStatus>('off');
+  const [teamMember, setTeamMember] = useState('');
+  const [members, setMembers] = useState<string[]>([]);
+  const [presence, setPresence] = useState<PresenceEntry[]>([]);
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  // Comment whose reply box has focus, shown to teammates as "drafting"
+  const [draftingId, setDraftingId] = useState<string | null>(null);
+  const team = useRef<WorkspaceConnection | null>(null);
+  const teamSnapshot = useRef<(snapshot: WorkspaceSnapshot) => Promise<void>>(async () => {});
+  const teamComments = useRef<(remote: Comment[]) => Promise<void>>(async () => {});
+  const startup = useRef<() => Promise<void>>(async () => {});
+
+  // Finish a pending sign-in, hydrate the inbox from the local store, then sync
+  const initialize = async () => {
+    let demo = isDemoMode;
+    let sourceList = sources;
+    try {
+      if (await completeSignIn()) {
+        sourceList = await connectChannel();
+        demo = false;
+      }
+    } catch (error) {
+      console.error(error);
+      alert(`Google sign-in failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!demo) {
+      try {
+        setComments(await commentRepository.getAll().then(list => mergeComments([], list)));
+      } catch (error) {
+        console.error("Failed to read local comment store.", error);
+      }
+    }
+    loadComments(demo, sourceList);
+  };
+
+  // Long-lived callbacks (mount, timers, sockets) always call into the latest render
+  useEffect(() => {
+    startup.current = initialize;
+    backgroundSync.current = () => loadComments(false, sources, true);
+    outboxReplay.current = flushOutbox;
+    teamSnapshot.current = applyTeamSnapshot;
+    teamComments.current = applyTeamComments;
+  });
+
+  useEffect(() => {
+    startup.current();
+  }, []);
+
+  // Poll live sources while the app is open; an interval of 0 turns it off
+  useEffect(() => {
+    if (isDemoMode || syncInterval <= 0 || sources.length === 0) return;
+    const scheduler = startSyncScheduler(syncInterval, () => backgroundSync.current());
+    return scheduler.stop;
+  }, [isDemoMode, syncInterval, sources.length]);
+
+  // Unread badge in the tab title, cleared when the tab is looked at
+  useEffect(() => {
+    document.title = unreadCount ? `(${unreadCount}) LeadStream` : 'LeadStream';
+  }, [unreadCount]);
+
+  useEffect(() => {
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') setUnreadCount(0);
+    };
+    document.addEventListener('visibilitychange', onVisible);
+    return () => document.removeEventListener('visibilitychange', onVisible);
+  }, []);
+
+  useEffect(() => onNotificationOpen(setPendingOpenId), []);
+
+  // Quota on the proxy is shared by the whole team; show it in Settings
+  useEffect(() => {
+    if (activeTab !== 'settings' || !isProxyEnabled()) return;
+    fetchProxyUsage().then(setProxyUsage).catch(error => console.error("Failed to load proxy usage.", error));
+  }, [activeTab]);
+
+  // A selection only makes sense within the list it was made in
   useEffect(() => {
-    const storedYtKey = localStorage.getItem('leadstream_yt_key');
-    const storedGemKey = localStorage.getItem('leadstream_gem_key');
-    const storedChannel = localStorage.getItem('leadstream_channel');
-    
-    if (storedYtKey) setApiKeyYoutube(storedYtKey);
-    if (storedGemKey) setApiKeyGemini(storedGemKey);
-    if (storedChannel) setChannelId(storedChannel);
-    
-    // Initial load
-    loadComments(true); 
+    setSelectMode(false);
+    setSelectedIds([]);
+  }, [activeTab]);
+
+  // Replay queued replies and webhooks as soon as the device reconnects
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      outboxReplay.current();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
   }, []);
 
+  useEffect(() => {
+    if (!teamConfig || isDemoMode) return;
+    const report = (error: unknown) => console.error("Failed to apply workspace update.", error);
+    const connection = connectWorkspace(teamConfig, {
+      onSnapshot: snapshot => { teamSnapshot.current(snapshot).catch(report); },
+      onComments: remote => { teamComments.current(remote).catch(report); },
+      onActivity: entry => setActivity(prev => [...prev, entry]),
+      onPresence: (next, names) => {
+        setPresence(next);
+        setMembers(names);
+      },
+      onStatus: setTeamStatus
+    });
+    team.current = connection;
+    return () => {
+      connection.close();
+      team.current = null;
+      setPresence([]);
+      setActivity([]);
+      setMembers([]);
+      setTeamMember('');
+    };
+  }, [teamConfig, isDemoMode]);
+
+  // Tell teammates which comment is open here, and whether a reply is being written
+  useEffect(() => {
+    const id = selectedComment?.id ?? null;
+    team.current?.setPresence(id, id && draftingId === id ? 'drafting' : 'viewing');
+  }, [selectedComment?.id, draftingId, teamStatus]);
+
+  useEffect(() => {
+    const target = pendingOpenId && comments.find(c => c.id === pendingOpenId);
+    if (!target) return;
+    setSelectedComment(target);
+    setPendingOpenId(null);
+  }, [pendingOpenId, comments]);
+
   // --- ACTIONS ---
 
-  const loadComments = async (useMock = false) => {
+  // Background runs stay silent and rethrow, so the scheduler can back off
+  const loadComments = async (useMock = false, sourceList = sources, background = false) => {
+    if (syncing.current) return;
+    syncing.current = true;
     setLoading(true);
     try {
-      if (useMock || isDemoMode) {
+      if (useMock) {
         // Simulate network delay
         await new Promise(r => setTimeout(r, 800));
         setComments(MOCK_COMMENTS);
       } else {
-        if (!apiKeyYoutube || !channelId) {
-          alert("Please configure API Keys in settings first.");
+        if (sourceList.length === 0) {
+          if (background) return;
+          alert("Please sign in with Google or add a comment source in settings first.");
           setActiveTab('settings');
-          setLoading(false);
           return;
         }
-        await fetchRealComments();
+        if (isOffline()) {
+          // The inbox already shows what was synced last; nothing to fetch
+          if (!background) alert("You're offline. Showing comments saved on this device.");
+          return;
+        }
+        const { added, newLeads, failures } = await fetchRealComments(sourceList);
+        if (document.visibilityState === 'hidden') setUnreadCount(count => count + added);
+        if (background) {
+          notifyHotLeads(newLeads, notifyThreshold).catch(error => console.error("Notification failed.", error));
+          if (failures.length) console.warn(`Some sources could not be synced:\n${failures.join('\n')}`);
+        } else if (failures.length) {
+          alert(`Some sources could not be synced:\n${failures.join('\n')}`);
+        }
+        flushOutbox();
       }
     } catch (error) {
+      if (background) throw error;
       console.error(error);
-      alert("Error loading comments. Check your console or API keys.");
+      alert("Error loading comments. Check your console or account settings.");
     } finally {
+      syncing.current = false;
       setLoading(false);
     }
   };
 
-  const fetchRealComments = async () => {
-    const endpoint = `https://www.googleapis.com/youtube/v3/commentThreads?part=snippet&allThreadsRelatedToChannelId=${channelId}&maxResults=10&key=${apiKeyYoutube}`;
-    
-    const response = await fetch(endpoint);
-    const data = await response.json();
-    
-    if (data.error) throw new Error(data.error.message);
-
-    const processed = await Promise.all(data.items.map(async (item: any) => {
-      const snippet = item.snippet.topLevelComment.snippet;
-      const isLead = await analyzeWithAI(snippet.textDisplay);
-      
-      return {
-        id: item.id,
-        authorDisplayName: snippet.authorDisplayName,
-        textDisplay: snippet.textDisplay,
-        videoTitle: "Unknown Video (API Limitation)", 
-        publishedAt: snippet.publishedAt,
-        isLead: isLead.isLead,
-        analysis: isLead.reason,
-        suggestedReply: isLead.reply,
-        replied: false,
-        thumbnail: snippet.authorProfileImageUrl
-      } as Comment;
+  const fetchRealComments = async (sourceList: SourceConfig[]) => {
+    // Each source only returns threads with activity since its own last sync;
+    // everything else is already in the local store with its triage progress.
+    const stored = await commentRepository.getAll();
+    const storedById = new Map(stored.map(c => [c.id, c]));
+    const fresh: SourceComment[] = [];
+    const changed: SourceComment[] = [];
+    const syncMarks: [string, string | null][] = [];
+    const failures: string[] = [];
+
+    for (const source of sourceList) {
+      try {
+        const metaKey = `lastSyncAt:${source.id}`;
+        const cursorKey = `syncCursor:${source.id}`;
+        const since = await commentRepository.getMeta(metaKey);
+        // A sync that hit the page limit continues where it stopped
+        const resume: { cursor: string; newest: string } | null = JSON.parse(await commentRepository.getMeta(cursorKey) ?? 'null');
+        const { comments: items, cursor } = await COMMENT_SOURCES[source.platform].fetchComments(source, { since, maxPages, cursor: resume?.cursor });
+        for (const item of items) {
+          const current = storedById.get(item.id);
+          if (!current) fresh.push(item);
+          else if (newMessages(current.thread, item.thread).length) changed.push(item);
+        }
+        const newest = newestPublishedAt([
+          ...items.flatMap(item => [item, ...(item.thread ?? [])]),
+          ...(resume ? [{ publishedAt: resume.newest }] : [])
+        ]);
+        // The mark only moves once everything back to `since` was fetched;
+        // until then it would skip the threads that are still to come
+        if (cursor && newest) {
+          syncMarks.push([cursorKey, JSON.stringify({ cursor, newest })]);
+        } else {
+          if (newest) syncMarks.push([metaKey, newest]);
+          if (resume) syncMarks.push([cursorKey, null]);
+        }
+      } catch (error) {
+        console.error(`Sync failed for ${source.name}.`, error);
+        failures.push(`${source.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    if (failures.length === sourceList.length) throw new Error(failures.join('\n'));
+
+    const analyze = (item: SourceComment) =>
+      analyzeWithAI(item.textDisplay, { author: item.authorDisplayName, thread: item.thread ?? [] });
+
+    const processed = await mapWithLimit(fresh, ANALYSIS_CONCURRENCY, async (item): Promise<Comment> => ({
+      ...item,
+      ...analysisFields(await analyze(item)),
+      ...replyStatusFor(item.thread)
     }));
 
-    setComments(processed);
+    // Known threads with new replies: re-classify only when someone other
+    // than the owner wrote, since follow-ups often carry budget or timeline
+    const threadPatches = new Map(await mapWithLimit(changed, ANALYSIS_CONCURRENCY, async (item): Promise<[string, Partial<Comment>]> => {
+      const current = storedById.get(item.id) as Comment;
+      const followUp = newMessages(current.thread, item.thread).some(m => !m.fromOwner);
+      return [item.id, {
+        thread: item.thread,
+        ...(followUp ? analysisFields(await analyze(item)) : {}),
+        ...replyStatusFor(item.thread, current)
+      }];
+    }));
+    const updated = [...threadPatches].map(([id, patch]) => ({ ...storedById.get(id) as Comment, ...patch }));
+
+    // Read again: teammates' changes may have arrived while sources were fetched
+    const latest = await commentRepository.getAll();
+    const merged = flagDuplicates(mergeComments(latest.map(c => ({ ...c, ...threadPatches.get(c.id) })), processed));
+    await commentRepository.saveAll(merged);
+    await Promise.all(syncMarks.map(([key, value]) => commentRepository.setMeta(key, value)));
+    setComments(merged);
+
+    // Duplicate checks can flag new and known comments alike; everything
+    // below goes by the flagged versions
+    const mergedById = new Map(merged.map(c => [c.id, c]));
+    const added = processed.map(c => mergedById.get(c.id) ?? c);
+    team.current?.upsert(added);
+    threadPatches.forEach((patch, id) => team.current?.patch(id, patch));
+    latest
+      .filter(c => c.moderation === 'clean' && mergedById.get(c.id)?.moderation === 'bot')
+      .forEach(c => {
+        const { moderation, isLead, leadScore, analysis } = mergedById.get(c.id) as Comment;
+        team.current?.patch(c.id, { moderation, isLead, leadScore, analysis }, describeChange(c, { moderation }));
+      });
+
+    const newLeads = [
+      ...added.filter(c => c.isLead),
+      ...updated.map(c => mergedById.get(c.id) ?? c).filter(c => c.isLead && !storedById.get(c.id)?.isLead)
+    ].filter(c => !isIgnored(ignoredAuthors, c));
+    newLeads.forEach(c => notifyWebhook('lead.flagged', c));
+    return { added: added.length, newLeads, failures };
   };
 
-  const analyzeWithAI = async (text: string): Promise<AIAnalysisResult> => {
-    if (!apiKeyGemini) return { isLead: false, reason: "No AI Key", reply: "Thanks!" };
-    
-    // Simple keyword heuristic for 'Real' mode without burning tokens in this demo
-    const lower = text.toLowerCase();
-    const isLead = lower.includes('buy') || lower.includes('sell') || lower.includes('help') || lower.includes('contact');
-    return {
-      isLead,
-      reason: isLead ? "Detected intent keywords." : "General comment.",
-      reply: "Thank you for watching! Let me know if you have questions."
-    };
+  // Fire-and-forget push to the configured CRM webhook
+  const notifyWebhook = (event: WebhookEvent, comment: Comment) => {
+    if (!webhookUrl) return;
+    const payload = buildLeadPayload(event, comment);
+    const queue = () => setOutboxCount(enqueue({ kind: 'webhook', url: webhookUrl, payload }).length);
+    if (isOffline()) return queue();
+    sendWebhook(webhookUrl, payload).catch(error => {
+      if (isNetworkError(error)) return queue();
+      console.error(`Webhook ${event} failed.`, error);
+    });
+  };
+
+  // Applies a patch to a stored comment outside the current render's state,
+  // for work that finishes after the user has moved on (outbox replay)
+  const patchStoredComment = async (id: string, patch: Partial<Comment>) => {
+    const stored = (await commentRepository.getAll()).find(c => c.id === id);
+    if (stored) await commentRepository.put({ ...stored, ...patch });
+    setComments(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+    setSelectedComment(prev => prev?.id === id ? { ...prev, ...patch } : prev);
+    team.current?.patch(id, patch);
+    return stored;
+  };
+
+  // --- TEAM WORKSPACE ---
+
+  // The workspace is the shared copy: it replaces local comments, and those
+  // only this device has synced are added to it. Drafts stay local.
+  const applyTeamSnapshot = async (snapshot: WorkspaceSnapshot) => {
+    const stored = await commentRepository.getAll();
+    const storedById = new Map(stored.map(c => [c.id, c]));
+    const remoteIds = new Set(snapshot.comments.map(c => c.id));
+    const localOnly = stored.filter(c => !remoteIds.has(c.id));
+    team.current?.upsert(localOnly);
+
+    const merged = mergeComments(localOnly, snapshot.comments.map(c => ({ ...c, draft: storedById.get(c.id)?.draft })));
+    await commentRepository.saveAll(merged);
+    setComments(merged);
+    setSelectedComment(prev => prev && (merged.find(c => c.id === prev.id) ?? prev));
+    setActivity(snapshot.activity);
+    setPresence(snapshot.presence);
+    setMembers(snapshot.members);
+    setTeamMember(snapshot.member);
+  };
+
+  // A teammate changed or added comments
+  const applyTeamComments = async (remote: Comment[]) => {
+    const stored = new Map((await commentRepository.getAll()).map(c => [c.id, c]));
+    const withDraft = remote.map(c => ({ ...c, draft: stored.get(c.id)?.draft }));
+    await Promise.all(withDraft.map(c => commentRepository.put(c)));
+    const byId = new Map(withDraft.map(c => [c.id, c]));
+    setComments(prev => mergeComments(prev.map(c => byId.get(c.id) ?? c), withDraft));
+    setSelectedComment(prev => prev && (byId.get(prev.id) ?? prev));
+  };
+
+  const updateTeamConfig = (next: TeamConfig | null) => {
+    setTeamConfig(next);
+    saveTeamConfig(next);
+  };
+
+  const sendQueued = async (item: OutboxItem) => {
+    if (item.kind === 'webhook') return sendWebhook(item.url, item.payload);
+
+    const comment = (await commentRepository.getAll()).find(c => c.id === item.commentId);
+    const source = comment && sources.find(s => s.id === comment.sourceId);
+    if (!comment || !source) throw new Error("The comment or its source was removed.");
+    const posted = await COMMENT_SOURCES[comment.platform].postReply(source, comment, item.text);
+    await patchStoredComment(comment.id, { repliedAt: posted.publishedAt, replyQueued: undefined });
+  };
+
+  const flushOutbox = async () => {
+    if (replaying.current || isOffline() || !loadOutbox().length) return;
+    replaying.current = true;
+    try {
+      const { failed } = await replayOutbox(sendQueued);
+      for (const { item, error } of failed) {
+        console.error("Queued change could not be sent.", item, error);
+        if (item.kind === 'reply') {
+          await patchStoredComment(item.commentId, { replied: false, postedReply: undefined, replyQueued: undefined });
+        }
+      }
+      if (failed.length) {
+        alert(`${failed.length} change(s) made offline could not be sent:\n${failed.map(({ error }) => error instanceof Error ? error.message : String(error)).join('\n')}`);
+      }
+    } finally {
+      replaying.current = false;
+      setOutboxCount(loadOutbox().length);
+    }
+  };
+
+  const analyzeWithAI = async (text: string, context?: ConversationContext): Promise<AIAnalysisResult> => {
+    if (!apiKeyGemini && !isProxyEnabled()) {
+      const fullText = commenterText(text, context);
+      const language = detectLanguage(fullText);
+      return { isLead: false, score: 0, intent: 'other', entities: extractEntities(fullText), moderation: detectModeration(fullText), language, reason: "No AI Key", ...cannedReply(language) };
+    }
+    // Behind the proxy the server supplies its own key
+    return analyzeComment(createGeminiClient({ apiKey: isProxyEnabled() ? undefined : apiKeyGemini }), text, context, buildGrounding(profile, knowledge));
+  };
+
+  const updateSources = (next: SourceConfig[]) => {
+    setSources(next);
+    saveSources(next);
+  };
+
+  // Looks up the signed-in account's channel, adds it as a source and
+  // switches to live mode. Returns the updated source list.
+  const connectChannel = async () => {
+    const token = await getAccessToken();
+    if (!token) throw new Error("No active Google session.");
+    const channel = await fetchMyChannel(token);
+
+    const id = sourceIdFor('youtube', channel.id);
+    const next = sources.some(s => s.id === id)
+      ? sources
+      : [...sources, { id, platform: 'youtube' as const, externalId: channel.id, name: channel.title, thumbnail: channel.thumbnail }];
+    updateSources(next);
+    localStorage.setItem('leadstream_account', JSON.stringify(channel));
+    localStorage.setItem('leadstream_demo_mode', 'false');
+    // Left over from API-key and single-channel setups
+    localStorage.removeItem('leadstream_yt_key');
+    localStorage.removeItem('leadstream_channel');
+    setAccount(channel);
+    setIsDemoMode(false);
+    return next;
+  };
+
+  const handleAddSource = (source: SourceConfig) => updateSources([...sources, source]);
+
+  // Removing a source drops its comments from the local inbox too
+  const handleRemoveSource = async (source: SourceConfig) => {
+    if (!confirm(`Remove ${source.name} and its comments from the inbox?`)) return;
+    updateSources(sources.filter(s => s.id !== source.id));
+    const remaining = (await commentRepository.getAll()).filter(c => c.sourceId !== source.id);
+    await commentRepository.saveAll(remaining);
+    await commentRepository.setMeta(`lastSyncAt:${source.id}`, null);
+    await commentRepository.setMeta(`syncCursor:${source.id}`, null);
+    if (!isDemoMode) setComments(mergeComments([], remaining));
   };
 
-  const handleSaveSettings = () => {
-    localStorage.setItem('leadstream_yt_key', apiKeyYoutube);
+  const handleSignOut = async () => {
+    await signOut();
+    localStorage.removeItem('leadstream_account');
+    localStorage.setItem('leadstream_demo_mode', 'true');
+    setAccount(null);
+    setIsDemoMode(true);
+    loadComments(true);
+  };
+
+  const handleSaveSettings = async () => {
     localStorage.setItem('leadstream_gem_key', apiKeyGemini);
-    localStorage.setItem('leadstream_channel', channelId);
+    saveServerToken(serverToken.trim());
+    localStorage.setItem('leadstream_max_pages', String(maxPages));
+    localStorage.setItem('leadstream_sync_interval', String(syncInterval));
+    localStorage.setItem('leadstream_notify_threshold', String(notifyThreshold));
+    localStorage.setItem('leadstream_webhook_url', webhookUrl.trim());
+    if (sources.length === 0) {
+      alert("Settings Saved! Sign in with Google or add a source to go live.");
+      return;
+    }
+    localStorage.setItem('leadstream_demo_mode', 'false');
     setIsDemoMode(false);
+    setComments(mergeComments([], await commentRepository.getAll()));
     alert("Settings Saved! Switching to Live Mode.");
     setActiveTab('inbox');
   };
 
-  const toggleReplyStatus = (id: string) => {
-    setComments(comments.map(c => c.id === id ? { ...c, replied: !c.replied } : c));
+  const handleEnableNotifications = async () => {
+    await requestNotificationPermission();
+    setNotifyPermission(Notification.permission);
+  };
+
+  const handleTestWebhook = async () => {
+    const sample = comments.find(c => c.isLead) ?? comments[0] ?? MOCK_COMMENTS[0];
+    try {
+      await sendWebhook(webhookUrl.trim(), buildLeadPayload('test', sample));
+      alert("Test payload delivered!");
+    } catch (error) {
+      console.error(error);
+      alert(`Webhook test failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Profile and templates save as you type; they don't affect the connection
+  const updateProfile = (next: AgentProfile) => {
+    setProfile(next);
+    localStorage.setItem('leadstream_profile', JSON.stringify(next));
+  };
+
+  const updateTemplates = (next: ReplyTemplate[]) => {
+    setTemplates(next);
+    localStorage.setItem('leadstream_templates', JSON.stringify(next));
+  };
+
+  const updateKnowledge = (next: KnowledgeBase) => {
+    setKnowledge(next);
+    localStorage.setItem('leadstream_knowledge', JSON.stringify(next));
+  };
+
+  const updateViews = (next: SavedView[]) => {
+    setViews(next);
+    localStorage.setItem('leadstream_views', JSON.stringify(next));
+  };
+
+  const handleSaveView = () => {
+    const name = prompt("Name this view", "")?.trim();
+    if (!name) return;
+    updateViews([...views, { id: crypto.randomUUID(), name, filters, sortBy }]);
+    setFiltersOpen(false);
+  };
+
+  const applyView = (view: SavedView) => {
+    setFilters({ ...EMPTY_FILTERS, ...view.filters });
+    setSortBy(view.sortBy);
+  };
+
+  const handleDeleteView = (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+    updateViews(views.filter(v => v.id !== view.id));
+  };
+
+  const updateIgnoredAuthors = (next: IgnoredAuthor[]) => {
+    setIgnoredAuthors(next);
+    localStorage.setItem('leadstream_ignored_authors', JSON.stringify(next));
+  };
+
+  // --- BATCH ACTIONS ---
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelectedIds([]);
+  };
+
+  // Snapshots the selection first so the whole batch can be undone at once
+  const runBatch = async (label: string, change: (comment: Comment) => Comment | Promise<Comment>) => {
+    const targets = selectedComments;
+    setLastBatch({ label, comments: targets, ignoredAuthors });
+    setBatchBusy(true);
+    try {
+      // Re-analysis calls Gemini once per comment; keep bursts small
+      const next = await mapWithLimit(targets, ANALYSIS_CONCURRENCY, async c => change(c));
+      saveComments(next);
+      return next;
+    } catch (error) {
+      console.error(error);
+      alert(`Batch ${label} failed: ${error instanceof Error ? error.message : error}`);
+      return [];
+    } finally {
+      setBatchBusy(false);
+    }
+  };
+
+  const handleBatchDone = async (done: boolean) => {
+    const wasDone = new Set(selectedComments.filter(c => c.replied).map(c => c.id));
+    const next = await runBatch(done ? 'done' : 'not done', c => ({ ...c, replied: done }));
+    if (done) next.filter(c => !wasDone.has(c.id)).forEach(c => notifyWebhook('comment.done', c));
+  };
+
+  const handleBatchReanalyze = async () => {
+    const wasLead = new Set(selectedComments.filter(c => c.isLead).map(c => c.id));
+    const next = await runBatch('re-analysis', async c => ({
+      ...c,
+      ...analysisFields(await analyzeWithAI(c.textDisplay, { author: c.authorDisplayName, thread: c.thread ?? [] }))
+    }));
+    next
+      .filter(c => c.isLead && !wasLead.has(c.id) && !isIgnored(ignoredAuthors, c))
+      .forEach(c => notifyWebhook('lead.flagged', c));
+  };
+
+  const handleBatchStage = (stage: PipelineStage) =>
+    runBatch('stage change', c => ({ ...c, lead: changeStage(leadRecordFor(c), stage) }));
+
+  const handleBatchIgnore = () => {
+    const names = [...new Set(selectedComments.map(c => c.authorDisplayName))];
+    if (!confirm(`Ignore ${names.length} author(s)? Their comments will be hidden:\n${names.join(', ')}`)) return;
+    setLastBatch({ label: 'ignore', comments: [], ignoredAuthors });
+    updateIgnoredAuthors(ignoreAuthors(ignoredAuthors, selectedComments));
+    setSelectedIds([]);
+  };
+
+  const handleUndoBatch = () => {
+    if (!lastBatch) return;
+    saveComments(lastBatch.comments);
+    updateIgnoredAuthors(lastBatch.ignoredAuthors);
+    setLastBatch(null);
+  };
+
+  // The edited draft, or the suggested reply with template variables filled in
+  const draftFor = (comment: Comment) => comment.draft ?? fillTemplate(comment.suggestedReply, comment, profile);
+
+  // Applies a local change to one comment and persists it in live mode.
+  const updateComment = (id: string, patch: Partial<Comment>) => {
+    setComments(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
     if (selectedComment?.id === id) {
-      setSelectedComment(prev => prev ? ({ ...prev, replied: !prev.replied }) : null);
+      setSelectedComment(prev => prev ? ({ ...prev, ...patch }) : null);
+    }
+    const current = comments.find(c => c.id === id);
+    if (current && !isDemoMode) {
+      commentRepository.put({ ...current, ...patch }).catch(error => console.error("Failed to save comment.", error));
     }
+    if (current) team.current?.patch(id, patch, describeChange(current, patch));
   };
 
+  // Like updateComment, for many comments at once
+  const saveComments = (next: Comment[]) => {
+    const byId = new Map(next.map(c => [c.id, c]));
+    setComments(prev => prev.map(c => byId.get(c.id) ?? c));
+    if (!isDemoMode) {
+      Promise.all(next.map(c => commentRepository.put(c))).catch(error => console.error("Failed to save comments.", error));
+    }
+    next.forEach(c => {
+      const current = comments.find(prev => prev.id === c.id);
+      if (current) team.current?.patch(c.id, c, describeChange(current, c));
+    });
+  };
+
+  const toggleReplyStatus = (id: string) => {
+    const current = comments.find(c => c.id === id);
+    if (!current) return;
+    updateComment(id, { replied: !current.replied });
+    if (!current.replied) notifyWebhook('comment.done', { ...current, replied: true });
+  };
+
+  const sendReply = async (comment: Comment) => {
+    const text = draftFor(comment).trim();
+    if (!text) return;
+
+    // The whole point of sharing presence: don't answer the same comment twice
+    const drafters = othersOn(presence, comment.id).filter(p => p.state === 'drafting').map(p => p.member);
+    if (drafters.length && !confirm(`${drafters.join(', ')} ${drafters.length > 1 ? 'are' : 'is'} also writing a reply. Post anyway?`)) return;
+
+    const issues = checkReply(text, comment, profile, knowledge);
+    if (issues.length && !confirm(`This reply has compliance issues:\n${issues.map(i => `• ${i.text}`).join('\n')}\n\nPost anyway?`)) return;
+
+    const adapter = COMMENT_SOURCES[comment.platform];
+    const source = sources.find(s => s.id === comment.sourceId);
+    if (isDemoMode || !source || !adapter.canPost(source)) {
+      // Not connected: hand the draft over to the platform manually
+      await navigator.clipboard.writeText(text).catch(() => undefined);
+      window.open(adapter.deepLink(comment, source), '_blank', 'noopener');
+      return;
+    }
+
+    // A first reply moves a fresh lead along the pipeline
+    const markReplied = (patch: Partial<Comment>) => {
+      const lead = isInPipeline(comment) && leadRecordFor(comment).stage === 'new'
+        ? changeStage(leadRecordFor(comment), 'contacted')
+        : comment.lead;
+      updateComment(comment.id, { replied: true, postedReply: text, lead, ...patch });
+      if (!comment.replied) notifyWebhook('comment.done', { ...comment, replied: true, lead });
+    };
+    const queueReply = () => {
+      setOutboxCount(enqueue({ kind: 'reply', commentId: comment.id, text }).length);
+      markReplied({ replyQueued: true });
+      alert("You're offline. The reply will be posted when you reconnect.");
+    };
+
+    if (isOffline()) return queueReply();
+    setPosting(true);
+    try {
+      const posted = await adapter.postReply(source, comment, text);
+      markReplied({ repliedAt: posted.publishedAt });
+      alert(`Reply posted to ${PLATFORM_LABELS[comment.platform]}!`);
+    } catch (error) {
+      if (isNetworkError(error)) return queueReply();
+      console.error(error);
+      alert(`Could not post reply: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  // Hold, reject or ban on the platform itself. A rejected comment is gone
+  // from the channel, so it also leaves the inbox.
+  const handleModerate = async (comment: Comment, status: ModerationStatus, banAuthor: boolean) => {
+    const adapter = COMMENT_SOURCES[comment.platform];
+    const source = sources.find(s => s.id === comment.sourceId);
+    if (!source || !adapter.moderate) return;
+    if (banAuthor && !confirm(`Reject this comment and ban ${comment.authorDisplayName} from your channel?`)) return;
+
+    setModerating(true);
+    try {
+      await adapter.moderate(source, comment, status, banAuthor);
+      updateComment(comment.id, {
+        moderationStatus: status,
+        authorBanned: banAuthor || comment.authorBanned,
+        ...(status === 'rejected' ? { replied: true } : {})
+      });
+    } catch (error) {
+      console.error(error);
+      alert(`Moderation failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setModerating(false);
+    }
+  };
+
+  // Manual override; a flagged comment drops out of the leads
+  // Flagging caps the score; clearing a flag lets the score decide again
+  const handleReclassify = (comment: Comment, moderation: ModerationFlag) =>
+    updateComment(comment.id, {
+      moderation,
+      moderationReviewed: true,
+      ...(moderation === 'clean'
+        ? { isLead: comment.leadScore >= LEAD_SCORE_THRESHOLD }
+        : { isLead: false, leadScore: Math.min(comment.leadScore, FLAGGED_MAX_SCORE) })
+    });
+
   // --- RENDER HELPERS ---
 
-  const filteredComments = comments.filter(c => {
+  const visibleComments = comments.filter(c => !isIgnored(ignoredAuthors, c));
+
+  const filteredComments = sortComments(applyFilters(visibleComments.filter(c => {
     if (activeTab === 'replied') return c.replied;
     if (activeTab === 'inbox') return !c.replied;
     return true;
-  }).filter(c => {
-    if (filter === 'leads') return c.isLead;
-    return true;
-  });
+  }), filters), sortBy);
+
+  const extraFilterCount = activeFilterCount(filters);
 
-  const leadsCount = comments.filter(c => c.isLead && !c.replied).length;
+  const selectedComments = filteredComments.filter(c => selectedIds.includes(c.id));
+
+  const leadsCount = visibleComments.filter(c => c.isLead && !c.replied).length;
+
+  const flaggedCount = visibleComments.filter(c => isFlagged(c) && !c.replied).length;
+
+  const pipelineLeads = visibleComments.filter(isInPipeline);
+
+  const selectedSource = selectedComment ? sources.find(s => s.id === selectedComment.sourceId) : undefined;
+
+  const replyIssues = selectedComment ? checkReply(draftFor(selectedComment), selectedComment, profile, knowledge) : [];
+
+  const teamActive = Boolean(teamConfig) && !isDemoMode;
+
+  // Teammates with a comment open, e.g. "Alex drafting"
+  const presenceLabel = (entries: PresenceEntry[]) =>
+    entries.map(p => `${p.member} ${p.state}`).join(', ');
 
   // --- VIEWS ---
 
@@ -243,10 +1020,43 @@ export default function App() {
         </div>
 
         <div className="p-4 space-y-6">
+          {/* Teammates on this comment */}
+          {othersOn(presence, selectedComment.id).length > 0 && (
+            <div className="flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-xl text-sm">
+              {othersOn(presence, selectedComment.id).some(p => p.state === 'drafting')
+                ? <PenLine className="w-4 h-4 flex-shrink-0" />
+                : <Eye className="w-4 h-4 flex-shrink-0" />}
+              <span>{presenceLabel(othersOn(presence, selectedComment.id))}</span>
+            </div>
+          )}
+
           {/* Video Context */}
           <div className="flex items-center gap-3 text-sm text-gray-500 mb-2">
-            <span className="bg-red-100 text-red-600 px-2 py-1 rounded text-xs font-bold">YOUTUBE</span>
-            <span className="truncate">{selectedComment.videoTitle}</span>
+            {selectedComment.videoThumbnail && (
+              <img 
+                src={selectedComment.videoThumbnail} 
+                className="w-20 aspect-video rounded-lg bg-gray-200 object-cover flex-shrink-0" 
+                alt="" 
+              />
+            )}
+            <div className="min-w-0 flex flex-col items-start gap-1">
+              <span className={`px-2 py-1 rounded text-xs font-bold uppercase ${PLATFORM_TAG_STYLES[selectedComment.platform]}`}>
+                {PLATFORM_LABELS[selectedComment.platform]}
+                {selectedSource && sources.length > 1 && <span className="font-medium normal-case"> · {selectedSource.name}</span>}
+              </span>
+              {contextLink(selectedComment) ? (
+                <a 
+                  href={contextLink(selectedComment)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="truncate max-w-full text-gray-700 hover:underline"
+                >
+                  {selectedComment.videoTitle}
+                </a>
+              ) : (
+                <span className="truncate max-w-full">{selectedComment.videoTitle}</span>
+              )}
+            </div>
           </div>
 
           {/* The Comment */}
@@ -263,10 +1073,26 @@ export default function App() {
                 <p className="mt-3 text-gray-800 text-base leading-relaxed">
                   {selectedComment.textDisplay}
                 </p>
+                {!isEnglish(selectedComment.language) && (
+                  <div className="mt-3 pt-3 border-t border-gray-100">
+                    <p className="flex items-center gap-1 text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                      <Languages className="w-3 h-3" />
+                      {selectedComment.translation ? `Translated from ${languageName(selectedComment.language)}` : languageName(selectedComment.language)}
+                    </p>
+                    <p className="mt-1 text-sm text-gray-600 leading-relaxed">
+                      {selectedComment.translation ?? "Add a Gemini key to see an English translation."}
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
           </Card>
 
+          {/* Conversation */}
+          {selectedComment.thread && selectedComment.thread.length > 0 && (
+            <ThreadView thread={selectedComment.thread} />
+          )}
+
           {/* AI Analysis */}
           <div className="space-y-3">
             <div className="flex items-center gap-2">
@@ -275,11 +1101,27 @@ export default function App() {
             </div>
             <Card className="p-4 border-indigo-100 bg-indigo-50/50">
               <div className="flex justify-between items-start mb-2">
-                <Badge type={selectedComment.isLead ? 'lead' : 'general'} />
+                <div className="flex items-center gap-1.5">
+                  <Badge score={selectedComment.leadScore} />
+                  <ModerationBadge flag={selectedComment.moderation} />
+                </div>
+                <span className="text-xs font-medium text-indigo-700 bg-white border border-indigo-100 px-2 py-0.5 rounded-full">
+                  {INTENT_LABELS[selectedComment.intent]}
+                </span>
               </div>
               <p className="text-sm text-gray-700 leading-relaxed">
                 {selectedComment.analysis}
               </p>
+              {ENTITY_LABELS.some(([key]) => selectedComment.entities[key]) && (
+                <dl className="mt-3 grid grid-cols-2 gap-2">
+                  {ENTITY_LABELS.filter(([key]) => selectedComment.entities[key]).map(([key, label]) => (
+                    <div key={key} className="bg-white rounded-lg border border-indigo-100 px-3 py-2">
+                      <dt className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{label}</dt>
+                      <dd className="text-sm text-gray-800 break-words">{selectedComment.entities[key]}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
             </Card>
           </div>
 
@@ -288,17 +1130,64 @@ export default function App() {
             <div className="flex items-center gap-2">
               <MessageSquare className="w-4 h-4 text-green-600" />
               <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Draft Reply</h3>
+              <select 
+                className="ml-auto max-w-[50%] text-xs bg-white border border-gray-200 rounded-lg px-2 py-1 text-gray-600 outline-none"
+                value=""
+                onChange={(e) => {
+                  const template = templates.find(t => t.id === e.target.value);
+                  if (template) updateComment(selectedComment.id, { draft: fillTemplate(template.body, selectedComment, profile) });
+                }}
+              >
+                <option value="" disabled>Use template...</option>
+                {rankTemplates(templates, selectedComment.intent).map(t => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}{t.intent !== 'any' ? ` (${INTENT_LABELS[t.intent]})` : ''}
+                  </option>
+                ))}
+              </select>
             </div>
             <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-1">
               <textarea 
                 className="w-full p-3 text-gray-800 rounded-xl resize-none focus:outline-none focus:ring-2 focus:ring-green-500/20 text-base"
                 rows={4}
-                defaultValue={selectedComment.suggestedReply}
+                value={draftFor(selectedComment)}
+                onChange={(e) => updateComment(selectedComment.id, { draft: e.target.value })}
+                onFocus={() => setDraftingId(selectedComment.id)}
+                onBlur={() => setDraftingId(null)}
               />
+              {replyIssues.length > 0 && (
+                <div className="mx-3 mb-2 p-2.5 bg-red-50 border border-red-100 rounded-xl text-xs text-red-700 space-y-1">
+                  <p className="flex items-center gap-1 font-semibold">
+                    <AlertTriangle className="w-3.5 h-3.5" />
+                    Check before posting
+                  </p>
+                  {replyIssues.map(issue => (
+                    <p key={`${issue.kind}:${issue.text}`}>
+                      {issue.kind === 'banned_phrase'
+                        ? `Banned phrase: “${issue.text}”`
+                        : `“${issue.text}” isn't in the comment or your knowledge base`}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {!isEnglish(selectedComment.language) && selectedComment.suggestedReplyEnglish && selectedComment.draft === undefined && (
+                <p className="px-3 pb-2 text-xs text-gray-500">
+                  <span className="font-semibold">English:</span> {fillTemplate(selectedComment.suggestedReplyEnglish, selectedComment, profile)}
+                </p>
+              )}
+              {selectedComment.postedReply && (selectedComment.replyQueued ? (
+                <p className="px-3 pb-2 text-xs text-amber-700">
+                  Queued: “{selectedComment.postedReply}” will post when you're back online
+                </p>
+              ) : (
+                <p className="px-3 pb-2 text-xs text-green-700">
+                  Posted: “{selectedComment.postedReply}”
+                </p>
+              ))}
               <div className="flex gap-2 p-2 border-t border-gray-100">
                 <button 
                   onClick={() => {
-                    navigator.clipboard.writeText(selectedComment.suggestedReply);
+                    navigator.clipboard.writeText(draftFor(selectedComment));
                     alert("Reply copied to clipboard!");
                   }}
                   className="flex-1 flex items-center justify-center gap-2 bg-gray-100 active:bg-gray-200 text-gray-700 py-3 rounded-xl font-medium transition-all"
@@ -307,19 +1196,61 @@ export default function App() {
                   Copy
                 </button>
                 <button 
-                  className="flex-1 flex items-center justify-center gap-2 bg-gray-900 active:bg-gray-800 text-white py-3 rounded-xl font-medium shadow-lg shadow-gray-200 transition-all"
-                  onClick={() => {
-                    // In a real app, this would deep link to the comment
-                    alert("Opening YouTube...");
-                  }}
+                  className="flex-1 flex items-center justify-center gap-2 bg-gray-900 active:bg-gray-800 text-white py-3 rounded-xl font-medium shadow-lg shadow-gray-200 transition-all disabled:opacity-60"
+                  disabled={posting}
+                  onClick={() => sendReply(selectedComment)}
                 >
-                  <ExternalLink className="w-4 h-4" />
-                  Reply on YT
+                  {selectedSource && !isDemoMode && COMMENT_SOURCES[selectedComment.platform].canPost(selectedSource) ? (
+                    <>
+                      <Send className="w-4 h-4" />
+                      {posting ? 'Posting...' : 'Post Reply'}
+                    </>
+                  ) : (
+                    <>
+                      <ExternalLink className="w-4 h-4" />
+                      Reply on {selectedComment.platform === 'youtube' ? 'YT' : 'FB'}
+                    </>
+                  )}
                 </button>
               </div>
             </div>
           </div>
 
+          {/* Lead Record */}
+          {isInPipeline(selectedComment) ? (
+            <LeadPanel 
+              record={leadRecordFor(selectedComment)}
+              onChange={(lead: LeadRecord) => updateComment(selectedComment.id, { lead })}
+            />
+          ) : (
+            <button 
+              onClick={() => updateComment(selectedComment.id, { lead: leadRecordFor(selectedComment) })}
+              className="w-full py-3 rounded-xl font-medium flex items-center justify-center gap-2 bg-white border border-gray-200 text-gray-700 active:scale-95 transition-all"
+            >
+              <KanbanSquare className="w-4 h-4" />
+              Add to Pipeline
+            </button>
+          )}
+
+          {/* Team */}
+          {teamActive && (
+            <TeamPanel 
+              assignee={selectedComment.assignee}
+              members={members}
+              activity={activity.filter(entry => entry.commentId === selectedComment.id)}
+              onAssign={(assignee) => updateComment(selectedComment.id, { assignee })}
+            />
+          )}
+
+          {/* Moderation */}
+          <ModerationPanel 
+            comment={selectedComment}
+            canModerate={!isDemoMode && Boolean(selectedSource && COMMENT_SOURCES[selectedComment.platform].canModerate(selectedSource))}
+            busy={moderating}
+            onModerate={(status, banAuthor) => handleModerate(selectedComment, status, banAuthor)}
+            onReclassify={(flag) => handleReclassify(selectedComment, flag)}
+          />
+
           {/* Actions */}
           <button 
             onClick={() => {
@@ -355,34 +1286,103 @@ export default function App() {
           <div>
             <h1 className="text-2xl font-bold text-gray-900 tracking-tight">LeadStream</h1>
             <p className="text-xs text-gray-500 font-medium">
-              {isDemoMode ? 'Demo Mode' : 'Connected to Live API'}
+              {!online ? 'Offline • Saved comments' : isDemoMode ? 'Demo Mode' : 'Connected to Live API'}
+              {outboxCount > 0 && ` • ${outboxCount} queued`}
+              {teamActive && teamConfig && ` • Team ${teamConfig.workspace}${teamStatus === 'online' ? '' : ' (offline)'}`}
             </p>
           </div>
-          <button 
-            onClick={() => setActiveTab('settings')}
-            className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200 transition-colors"
-          >
-            <Settings className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-2">
+            {activeTab !== 'settings' && activeTab !== 'analytics' && (
+              <ExportMenu comments={activeTab === 'pipeline' ? pipelineLeads : filteredComments} />
+            )}
+            <button 
+              onClick={() => setActiveTab('settings')}
+              className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200 transition-colors"
+            >
+              <Settings className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         {/* Filters */}
-        {activeTab !== 'settings' && (
+        {(activeTab === 'inbox' || activeTab === 'replied') && (
+          <>
+          <div className="flex gap-2 mb-3">
+            <div className="flex-1 relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input 
+                type="search" 
+                className="w-full pl-9 pr-3 py-2 bg-gray-50 border border-gray-200 rounded-full text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                placeholder="Search comments or authors"
+                value={filters.query}
+                onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+              />
+            </div>
+            <button 
+              onClick={() => setFiltersOpen(!filtersOpen)}
+              className={`px-3 py-2 rounded-full text-xs font-medium flex items-center gap-1 whitespace-nowrap active:scale-95 transition-all ${filtersOpen || extraFilterCount ? 'bg-indigo-600 text-white' : 'bg-white border border-gray-200 text-gray-600'}`}
+            >
+              <SlidersHorizontal className="w-3 h-3" />
+              Filters{extraFilterCount > 0 && ` (${extraFilterCount})`}
+            </button>
+          </div>
           <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-hide">
             <button 
-              onClick={() => setFilter('all')}
-              className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${filter === 'all' ? 'bg-gray-900 text-white shadow-md' : 'bg-white border border-gray-200 text-gray-600'}`}
+              onClick={() => setFilters({ ...filters, status: 'any' })}
+              className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${filters.status === 'any' ? 'bg-gray-900 text-white shadow-md' : 'bg-white border border-gray-200 text-gray-600'}`}
             >
               All Comments
             </button>
             <button 
-              onClick={() => setFilter('leads')}
-              className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap flex items-center gap-2 transition-all ${filter === 'leads' ? 'bg-orange-500 text-white shadow-md' : 'bg-white border border-gray-200 text-gray-600'}`}
+              onClick={() => setFilters({ ...filters, status: 'leads' })}
+              className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap flex items-center gap-2 transition-all ${filters.status === 'leads' ? 'bg-orange-500 text-white shadow-md' : 'bg-white border border-gray-200 text-gray-600'}`}
             >
               <Flame className="w-3 h-3" />
               Leads Only ({leadsCount})
             </button>
+            <button 
+              onClick={() => setFilters({ ...filters, status: 'flagged' })}
+              className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap flex items-center gap-2 transition-all ${filters.status === 'flagged' ? 'bg-purple-600 text-white shadow-md' : 'bg-white border border-gray-200 text-gray-600'}`}
+            >
+              <ShieldAlert className="w-3 h-3" />
+              Flagged ({flaggedCount})
+            </button>
+            {views.map(view => {
+              const active = isViewActive(view, filters, sortBy);
+              return (
+                <div 
+                  key={view.id}
+                  className={`pl-3 pr-1 py-1 rounded-full text-sm font-medium whitespace-nowrap flex items-center gap-1 transition-all ${active ? 'bg-indigo-600 text-white shadow-md' : 'bg-white border border-gray-200 text-gray-600'}`}
+                >
+                  <button onClick={() => applyView(view)} className="flex items-center gap-1.5 py-1">
+                    <Bookmark className="w-3 h-3" />
+                    {view.name}
+                  </button>
+                  <button 
+                    onClick={() => handleDeleteView(view)}
+                    className={`p-1 rounded-full ${active ? 'hover:bg-indigo-500' : 'text-gray-400 hover:bg-gray-100'}`}
+                    aria-label={`Delete ${view.name}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              );
+            })}
             <div className="flex-1"></div>
+            <button 
+              onClick={() => setSortBy(sortBy === 'date' ? 'score' : 'date')}
+              className="px-3 py-2 bg-white border border-gray-200 rounded-full text-xs font-medium text-gray-600 flex items-center gap-1 whitespace-nowrap active:scale-95 transition-transform"
+            >
+              <ArrowUpDown className="w-3 h-3" />
+              {sortBy === 'date' ? 'Newest' : 'Top Score'}
+            </button>
+            <button 
+              onClick={() => selectMode ? exitSelectMode() : setSelectMode(true)}
+              className={`p-2 rounded-full active:scale-95 transition-all ${selectMode ? 'bg-indigo-600 text-white' : 'bg-white border border-gray-200 text-gray-600'}`}
+              title="Select"
+            >
+              <CheckSquare className="w-4 h-4" />
+            </button>
             <button 
               onClick={() => loadComments(isDemoMode)}
               className="p-2 bg-white border border-gray-200 rounded-full text-gray-600 active:scale-95 transition-transform"
@@ -390,6 +1390,15 @@ export default function App() {
               <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
             </button>
           </div>
+          {filtersOpen && (
+            <FilterPanel 
+              comments={comments}
+              filters={filters}
+              onChange={setFilters}
+              onSaveView={handleSaveView}
+            />
+          )}
+          </>
         )}
       </div>
 
@@ -406,44 +1415,162 @@ export default function App() {
               
               <div className="space-y-4">
                 <div className="p-3 bg-blue-50 text-blue-800 rounded-lg text-sm">
-                  <p className="font-semibold mb-1">How to get keys:</p>
+                  <p className="font-semibold mb-1">How to connect:</p>
                   <ul className="list-disc list-inside space-y-1 opacity-80">
-                    <li>Google Cloud Console for YouTube Data API v3</li>
-                    <li>Google AI Studio for Gemini API Key</li>
+                    <li>Sign in with the Google account that owns your channel</li>
+                    <li>{isProxyEnabled() ? 'API keys are held by the LeadStream server' : 'Google AI Studio for Gemini API Key'}</li>
                   </ul>
                 </div>
 
                 <div>
-                  <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">YouTube Channel ID</label>
-                  <input 
-                    type="text" 
-                    className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
-                    placeholder="UC_x5..."
-                    value={channelId}
-                    onChange={(e) => setChannelId(e.target.value)}
-                  />
+                  <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">YouTube Account</label>
+                  {account ? (
+                    <div className="flex items-center gap-3 p-3 bg-gray-50 border border-gray-200 rounded-xl">
+                      <img src={account.thumbnail} alt="" className="w-8 h-8 rounded-full bg-gray-200" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{account.title}</p>
+                        <p className="text-xs text-gray-400 truncate">{account.id}</p>
+                      </div>
+                      <button 
+                        onClick={handleSignOut}
+                        className="flex items-center gap-1 text-sm text-gray-600 px-3 py-2 bg-white border border-gray-200 rounded-lg active:scale-95 transition-all"
+                      >
+                        <LogOut className="w-4 h-4" />
+                        Sign out
+                      </button>
+                    </div>
+                  ) : (
+                    <>
+                      <button 
+                        onClick={() => startSignIn()}
+                        disabled={!isOAuthConfigured()}
+                        className="w-full flex items-center justify-center gap-2 p-3 bg-white border border-gray-200 rounded-xl font-medium text-gray-700 active:scale-95 transition-all disabled:opacity-50"
+                      >
+                        <LogIn className="w-4 h-4" />
+                        Sign in with Google
+                      </button>
+                      {!isOAuthConfigured() && (
+                        <p className="text-xs text-gray-400 mt-1">Set VITE_GOOGLE_CLIENT_ID to enable sign-in.</p>
+                      )}
+                    </>
+                  )}
                 </div>
 
+                {isProxyEnabled() ? (
+                  <>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">Server Token</label>
+                      <input 
+                        type="password" 
+                        className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                        placeholder="From whoever runs the LeadStream server"
+                        value={serverToken}
+                        onChange={(e) => setServerToken(e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">Server Quota Today</label>
+                      <div className="p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm text-gray-700 space-y-2">
+                        {proxyUsage ? (
+                          <>
+                            <div className="flex justify-between">
+                              <span>YouTube units</span>
+                              <span className="font-medium">{proxyUsage.youtubeUnits.toLocaleString()} / {proxyUsage.youtubeLimit.toLocaleString()}</span>
+                            </div>
+                            <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                              <div className="h-full bg-indigo-500" style={{ width: `${Math.min(100, (proxyUsage.youtubeUnits / proxyUsage.youtubeLimit) * 100)}%` }} />
+                            </div>
+                            <div className="flex justify-between text-xs text-gray-500">
+                              <span>{proxyUsage.geminiRequests} Gemini requests</span>
+                              <span>{proxyUsage.cacheEntries} cached responses</span>
+                            </div>
+                          </>
+                        ) : (
+                          <p className="text-gray-400">{serverToken ? 'Loading usage…' : 'Enter your server token to see usage.'}</p>
+                        )}
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <div>
+                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">Gemini AI API Key</label>
+                    <input 
+                      type="password" 
+                      className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                      placeholder="AIza..."
+                      value={apiKeyGemini}
+                      onChange={(e) => setApiKeyGemini(e.target.value)}
+                    />
+                  </div>
+                )}
+
                 <div>
-                  <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">YouTube API Key</label>
+                  <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">Max Pages per Sync</label>
                   <input 
-                    type="password" 
+                    type="number" 
+                    min={1}
+                    max={50}
                     className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
-                    placeholder="AIza..."
-                    value={apiKeyYoutube}
-                    onChange={(e) => setApiKeyYoutube(e.target.value)}
+                    value={maxPages}
+                    onChange={(e) => setMaxPages(Math.max(1, Number(e.target.value) || 1))}
                   />
+                  <p className="text-xs text-gray-400 mt-1">Each page holds up to 100 comment threads.</p>
                 </div>
 
                 <div>
-                  <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">Gemini AI API Key</label>
+                  <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">Background Sync (minutes)</label>
                   <input 
-                    type="password" 
+                    type="number" 
+                    min={0}
+                    max={1440}
                     className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
-                    placeholder="AIza..."
-                    value={apiKeyGemini}
-                    onChange={(e) => setApiKeyGemini(e.target.value)}
+                    value={syncInterval}
+                    onChange={(e) => setSyncInterval(Math.max(0, Number(e.target.value) || 0))}
                   />
+                  <p className="text-xs text-gray-400 mt-1">0 turns polling off. Slows down automatically when the YouTube quota runs out.</p>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">Hot Lead Alerts</label>
+                  <div className="flex gap-2">
+                    <input 
+                      type="number" 
+                      min={0}
+                      max={100}
+                      className="flex-1 min-w-0 p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                      value={notifyThreshold}
+                      onChange={(e) => setNotifyThreshold(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+                    />
+                    <button 
+                      onClick={handleEnableNotifications}
+                      disabled={!notificationsSupported() || notifyPermission !== 'default'}
+                      className="px-4 bg-white border border-gray-200 text-gray-700 rounded-xl text-sm font-medium active:scale-95 transition-all disabled:opacity-50 flex items-center gap-1"
+                    >
+                      <Bell size={14} /> {notifyPermission === 'granted' ? 'On' : notifyPermission === 'denied' ? 'Blocked' : 'Enable'}
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-400 mt-1">Notify when a new lead scores at least this high.</p>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">CRM Webhook URL</label>
+                  <div className="flex gap-2">
+                    <input 
+                      type="url" 
+                      className="flex-1 min-w-0 p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                      placeholder="https://hooks.zapier.com/..."
+                      value={webhookUrl}
+                      onChange={(e) => setWebhookUrl(e.target.value)}
+                    />
+                    <button 
+                      onClick={handleTestWebhook}
+                      disabled={!webhookUrl}
+                      className="px-4 bg-white border border-gray-200 text-gray-700 rounded-xl text-sm font-medium active:scale-95 transition-all disabled:opacity-50"
+                    >
+                      Test
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-400 mt-1">Receives a POST when a comment is flagged as a lead or marked done.</p>
                 </div>
 
                 <div className="flex items-center gap-3 pt-2">
@@ -455,6 +1582,7 @@ export default function App() {
                   </button>
                   <button 
                     onClick={() => {
+                      localStorage.setItem('leadstream_demo_mode', 'true');
                       setIsDemoMode(true);
                       setActiveTab('inbox');
                       loadComments(true);
@@ -466,14 +1594,44 @@ export default function App() {
                 </div>
               </div>
             </Card>
+
+            <SourceSettings sources={sources} onAdd={handleAddSource} onRemove={handleRemoveSource} />
+
+            <AgentProfileCard profile={profile} onChange={updateProfile} />
+
+            <KnowledgeBaseCard knowledge={knowledge} onChange={updateKnowledge} />
+
+            <TemplateLibraryCard templates={templates} onChange={updateTemplates} />
+
+            <TeamSettingsCard 
+              config={teamConfig}
+              member={teamMember}
+              status={teamStatus}
+              members={members}
+              presence={presence}
+              onChange={updateTeamConfig}
+            />
+
+            <IgnoredAuthorsCard 
+              authors={ignoredAuthors}
+              onRestore={(author) => updateIgnoredAuthors(ignoredAuthors.filter(a => a.key !== author.key))}
+            />
             
             <div className="text-center text-xs text-gray-400 pb-8">
-              LeadStream v1.0 • Runs entirely in browser
+              LeadStream v1.0 • {isProxyEnabled() ? 'Connected through the LeadStream server' : 'Runs entirely in browser'}
             </div>
           </div>
         )}
 
-        {activeTab !== 'settings' && (
+        {activeTab === 'pipeline' && (
+          <PipelineBoard leads={pipelineLeads} onSelect={setSelectedComment} />
+        )}
+
+        {activeTab === 'analytics' && (
+          <AnalyticsDashboard comments={visibleComments} />
+        )}
+
+        {(activeTab === 'inbox' || activeTab === 'replied') && (
           <div className="space-y-4">
             {filteredComments.length === 0 && !loading && (
               <div className="text-center py-12">
@@ -488,20 +1646,42 @@ export default function App() {
             {filteredComments.map((comment) => (
               <div 
                 key={comment.id}
-                onClick={() => setSelectedComment(comment)}
+                onClick={() => selectMode ? toggleSelected(comment.id) : setSelectedComment(comment)}
                 className="group active:scale-[0.98] transition-transform duration-200 ease-out cursor-pointer"
               >
-                <Card className={`p-4 relative ${comment.isLead ? 'border-l-4 border-l-orange-500' : ''}`}>
+                <Card className={`p-4 relative ${comment.isLead ? 'border-l-4 border-l-orange-500' : ''} ${selectedIds.includes(comment.id) ? 'ring-2 ring-indigo-500' : ''}`}>
                   <div className="flex justify-between items-start mb-2">
                     <div className="flex items-center gap-2">
+                      {selectMode && (
+                        <input 
+                          type="checkbox" 
+                          readOnly
+                          checked={selectedIds.includes(comment.id)}
+                          className="w-4 h-4 accent-indigo-600 pointer-events-none"
+                        />
+                      )}
                       <img 
                         src={comment.thumbnail} 
                         alt="" 
                         className="w-6 h-6 rounded-full bg-gray-100"
                       />
                       <span className="text-xs font-bold text-gray-700">{comment.authorDisplayName}</span>
+                      {!isEnglish(comment.language) && (
+                        <span className="text-[10px] font-bold uppercase text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded" title={languageName(comment.language)}>
+                          {comment.language}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1.5">
+                      {othersOn(presence, comment.id).length > 0 && (
+                        <span className="flex items-center gap-1 text-[10px] font-medium text-amber-800 bg-amber-50 border border-amber-200 px-1.5 py-0.5 rounded-full">
+                          <Eye className="w-3 h-3" />
+                          {presenceLabel(othersOn(presence, comment.id))}
+                        </span>
+                      )}
+                      <ModerationBadge flag={comment.moderation} />
+                      <Badge score={comment.leadScore} />
                     </div>
-                    <Badge type={comment.isLead ? 'lead' : 'general'} />
                   </div>
                   
                   <p className="text-gray-800 text-sm line-clamp-2 leading-relaxed mb-3">
@@ -509,7 +1689,25 @@ export default function App() {
                   </p>
                   
                   <div className="flex items-center justify-between text-xs text-gray-400 border-t border-gray-50 pt-3">
-                    <span className="truncate max-w-[60%]">{comment.videoTitle}</span>
+                    <div className="flex items-center gap-2 min-w-0 max-w-[60%]">
+                      <PlatformIcon platform={comment.platform} className="w-3.5 h-3.5 flex-shrink-0" />
+                      {comment.videoThumbnail && (
+                        <img src={comment.videoThumbnail} alt="" className="w-8 aspect-video rounded bg-gray-100 object-cover flex-shrink-0" />
+                      )}
+                      <span className="truncate">{comment.videoTitle}</span>
+                    </div>
+                    {comment.assignee && (
+                      <span className="flex items-center gap-1 flex-shrink-0 truncate max-w-[25%]">
+                        <UserCheck className="w-3 h-3 flex-shrink-0" />
+                        {comment.assignee}
+                      </span>
+                    )}
+                    {comment.thread && comment.thread.length > 0 && (
+                      <span className="flex items-center gap-1 flex-shrink-0">
+                        <MessagesSquare className="w-3 h-3" />
+                        {comment.thread.length}
+                      </span>
+                    )}
                     <div className="flex items-center gap-1 text-indigo-600 font-medium opacity-0 group-hover:opacity-100 transition-opacity">
                       Analyze <ChevronRight className="w-3 h-3" />
                     </div>
@@ -521,8 +1719,26 @@ export default function App() {
         )}
       </div>
 
+      {/* Batch Actions */}
+      {selectMode && (
+        <BatchBar 
+          count={selectedComments.length}
+          total={filteredComments.length}
+          busy={batchBusy}
+          undoLabel={lastBatch?.label}
+          onSelectAll={() => setSelectedIds(selectedComments.length === filteredComments.length ? [] : filteredComments.map(c => c.id))}
+          onCancel={exitSelectMode}
+          onMarkDone={handleBatchDone}
+          onReanalyze={handleBatchReanalyze}
+          onStage={handleBatchStage}
+          onExport={(format) => exportComments(selectedComments, format)}
+          onIgnoreAuthors={handleBatchIgnore}
+          onUndo={handleUndoBatch}
+        />
+      )}
+
       {/* Bottom Tab Bar */}
-      {activeTab !== 'settings' && !selectedComment && (
+      {activeTab !== 'settings' && !selectedComment && !selectMode && (
         <div className="bg-white border-t border-gray-200 px-6 py-3 pb-6 flex justify-between items-center sticky bottom-0">
           <button 
             onClick={() => setActiveTab('inbox')}
@@ -534,6 +1750,26 @@ export default function App() {
           
           <div className="w-px h-8 bg-gray-100"></div>
           
+          <button 
+            onClick={() => setActiveTab('pipeline')}
+            className={`flex flex-col items-center gap-1 ${activeTab === 'pipeline' ? 'text-gray-900' : 'text-gray-400'}`}
+          >
+            <KanbanSquare className="w-6 h-6" />
+            <span className="text-[10px] font-medium">Pipeline</span>
+          </button>
+          
+          <div className="w-px h-8 bg-gray-100"></div>
+          
+          <button 
+            onClick={() => setActiveTab('analytics')}
+            className={`flex flex-col items-center gap-1 ${activeTab === 'analytics' ? 'text-gray-900' : 'text-gray-400'}`}
+          >
+            <BarChart3 className="w-6 h-6" />
+            <span className="text-[10px] font-medium">Analytics</span>
+          </button>
+          
+          <div className="w-px h-8 bg-gray-100"></div>
+          
           <button 
             onClick={() => setActiveTab('replied')}
             className={`flex flex-col items-center gap-1 ${activeTab === 'replied' ? 'text-gray-900' : 'text-gray-400'}`}
@@ -0,0 +1,138 @@
+import type { ReactNode } from 'react';
+import { BarChart3, Clock, PieChart, TrendingUp, Video } from 'lucide-react';
+import { INTENT_LABELS } from '../types';
+import type { Comment } from '../types';
+import { formatDuration, intentBreakdown, summarize, videoStats, weeklyTrends } from '../services/analytics';
+import { Card } from './ui';
+
+// --- ANALYTICS DASHBOARD ---
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const SectionTitle = ({ Icon, children }: { Icon: typeof BarChart3; children: ReactNode }) => (
+  <div className="flex items-center gap-2 mb-3">
+    <Icon className="w-4 h-4 text-indigo-600" />
+    <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">{children}</h3>
+  </div>
+);
+
+const Stat = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <Card className="p-4">
+    <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{label}</p>
+    <p className="text-2xl font-bold text-gray-900 mt-1">{value}</p>
+    {hint && <p className="text-xs text-gray-400 mt-0.5">{hint}</p>}
+  </Card>
+);
+
+// Horizontal bar, width relative to the largest value in its chart
+const Bar = ({ value, max, className }: { value: number; max: number; className: string }) => (
+  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+    <div className={`h-full rounded-full ${className}`} style={{ width: `${max ? (value / max) * 100 : 0}%` }} />
+  </div>
+);
+
+export const AnalyticsDashboard = ({ comments }: { comments: Comment[] }) => {
+  const summary = summarize(comments);
+  const videos = videoStats(comments);
+  const intents = intentBreakdown(comments);
+  const weeks = weeklyTrends(comments);
+
+  const maxVideoLeads = Math.max(0, ...videos.map(v => v.leads));
+  const maxIntent = Math.max(0, ...intents.map(i => i.count));
+  const maxWeek = Math.max(0, ...weeks.map(w => w.comments));
+
+  if (comments.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="bg-gray-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
+          <BarChart3 className="w-8 h-8 text-gray-400" />
+        </div>
+        <h3 className="text-gray-900 font-medium">No data yet</h3>
+        <p className="text-gray-500 text-sm mt-1">Sync some comments to see how your videos perform.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+      <div className="grid grid-cols-2 gap-3">
+        <Stat label="Leads" value={String(summary.leads)} hint={`of ${summary.comments} comments`} />
+        <Stat label="Lead Rate" value={percent(summary.leads / summary.comments)} />
+        <Stat
+          label="Median Reply Time"
+          value={summary.medianReplyMinutes === null ? '–' : formatDuration(summary.medianReplyMinutes)}
+          hint="comment → reply"
+        />
+        <Stat label="Reply Coverage" value={percent(summary.replyCoverage)} hint={`${percent(summary.leadReplyCoverage)} of leads`} />
+      </div>
+
+      <div>
+        <SectionTitle Icon={TrendingUp}>Weekly Trend</SectionTitle>
+        <Card className="p-4">
+          <div className="flex items-end gap-2 h-32">
+            {weeks.map(week => (
+              <div key={week.weekStart} className="flex-1 h-full flex flex-col justify-end items-center gap-0.5" title={`${week.comments} comments, ${week.leads} leads, ${week.replied} replied`}>
+                <div className="w-full flex items-end gap-0.5 h-full">
+                  <div className="flex-1 bg-gray-200 rounded-t" style={{ height: `${maxWeek ? (week.comments / maxWeek) * 100 : 0}%` }} />
+                  <div className="flex-1 bg-orange-400 rounded-t" style={{ height: `${maxWeek ? (week.leads / maxWeek) * 100 : 0}%` }} />
+                  <div className="flex-1 bg-green-500 rounded-t" style={{ height: `${maxWeek ? (week.replied / maxWeek) * 100 : 0}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-1">
+            {weeks.map(week => (
+              <span key={week.weekStart} className="flex-1 text-center text-[9px] text-gray-400">{week.weekStart.slice(5)}</span>
+            ))}
+          </div>
+          <div className="flex justify-center gap-4 mt-3 text-[10px] text-gray-500">
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-gray-200" /> Comments</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-orange-400" /> Leads</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-green-500" /> Replied</span>
+          </div>
+        </Card>
+      </div>
+
+      <div>
+        <SectionTitle Icon={Video}>Leads per Video</SectionTitle>
+        <Card className="divide-y divide-gray-50">
+          {videos.map(video => (
+            <div key={video.key} className="p-3 space-y-1.5">
+              <div className="flex items-center gap-2">
+                {video.thumbnail && (
+                  <img src={video.thumbnail} alt="" className="w-10 aspect-video rounded bg-gray-100 object-cover flex-shrink-0" />
+                )}
+                <p className="flex-1 min-w-0 text-sm font-medium text-gray-800 truncate">{video.title}</p>
+                <span className="text-xs font-bold text-gray-900">{video.leads}</span>
+              </div>
+              <Bar value={video.leads} max={maxVideoLeads} className="bg-orange-400" />
+              <p className="text-[10px] text-gray-400">
+                {percent(video.leadRate)} lead rate · {video.buyers} buyer{video.buyers === 1 ? '' : 's'} · {video.comments} comments
+              </p>
+            </div>
+          ))}
+        </Card>
+      </div>
+
+      <div>
+        <SectionTitle Icon={PieChart}>Intent Breakdown</SectionTitle>
+        <Card className="p-4 space-y-3">
+          {intents.map(({ intent, count }) => (
+            <div key={intent} className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span className="font-medium text-gray-700">{INTENT_LABELS[intent]}</span>
+                <span className="text-gray-400">{count} · {percent(count / summary.comments)}</span>
+              </div>
+              <Bar value={count} max={maxIntent} className="bg-indigo-500" />
+            </div>
+          ))}
+        </Card>
+      </div>
+
+      <p className="text-center text-xs text-gray-400 flex items-center justify-center gap-1 pb-4">
+        <Clock className="w-3 h-3" />
+        Reply times only count replies posted from the app or found in the thread.
+      </p>
+    </div>
+  );
+};
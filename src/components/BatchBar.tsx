@@ -0,0 +1,82 @@
+import { CheckCircle2, Circle, Download, FileJson, Sparkles, Undo2, UserX, X } from 'lucide-react';
+import type { PipelineStage } from '../types';
+import { PIPELINE_STAGES, STAGE_LABELS } from '../services/pipeline';
+
+// --- BATCH ACTION BAR ---
+
+interface BatchBarProps {
+  count: number;
+  total: number;
+  busy: boolean;
+  undoLabel?: string;
+  onSelectAll: () => void;
+  onCancel: () => void;
+  onMarkDone: (done: boolean) => void;
+  onReanalyze: () => void;
+  onStage: (stage: PipelineStage) => void;
+  onExport: (format: 'csv' | 'json') => void;
+  onIgnoreAuthors: () => void;
+  onUndo: () => void;
+}
+
+const actionClass = "flex flex-col items-center gap-1 px-2 py-1.5 rounded-xl text-[10px] font-medium text-gray-700 active:bg-gray-100 disabled:opacity-40 transition-all";
+
+export const BatchBar = ({
+  count, total, busy, undoLabel,
+  onSelectAll, onCancel, onMarkDone, onReanalyze, onStage, onExport, onIgnoreAuthors, onUndo
+}: BatchBarProps) => {
+  const disabled = busy || count === 0;
+
+  return (
+    <div className="bg-white border-t border-gray-200 px-4 pt-3 pb-6 sticky bottom-0 space-y-3 z-20">
+      <div className="flex items-center justify-between">
+        <button onClick={onCancel} className="flex items-center gap-1 text-sm text-gray-500">
+          <X className="w-4 h-4" /> {count} selected
+        </button>
+        <div className="flex items-center gap-3">
+          {undoLabel && (
+            <button onClick={onUndo} disabled={busy} className="flex items-center gap-1 text-sm font-medium text-indigo-600 disabled:opacity-40">
+              <Undo2 className="w-4 h-4" /> Undo {undoLabel}
+            </button>
+          )}
+          <button onClick={onSelectAll} className="text-sm font-medium text-gray-700">
+            {count === total ? 'Select none' : 'Select all'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-start justify-between gap-1 overflow-x-auto scrollbar-hide">
+        <button className={actionClass} disabled={disabled} onClick={() => onMarkDone(true)}>
+          <CheckCircle2 className="w-5 h-5" /> Done
+        </button>
+        <button className={actionClass} disabled={disabled} onClick={() => onMarkDone(false)}>
+          <Circle className="w-5 h-5" /> Not done
+        </button>
+        <button className={actionClass} disabled={disabled} onClick={onReanalyze}>
+          <Sparkles className={`w-5 h-5 ${busy ? 'animate-pulse' : ''}`} /> Re-analyze
+        </button>
+        <button className={actionClass} disabled={disabled} onClick={() => onExport('csv')}>
+          <Download className="w-5 h-5" /> CSV
+        </button>
+        <button className={actionClass} disabled={disabled} onClick={() => onExport('json')}>
+          <FileJson className="w-5 h-5" /> JSON
+        </button>
+        <button className={actionClass} disabled={disabled} onClick={onIgnoreAuthors}>
+          <UserX className="w-5 h-5" /> Ignore
+        </button>
+      </div>
+
+      <select 
+        className="w-full p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all disabled:opacity-40"
+        disabled={disabled}
+        value=""
+        onChange={(e) => onStage(e.target.value as PipelineStage)}
+      >
+        <option value="" disabled>Move to pipeline stage…</option>
+        {PIPELINE_STAGES.map(stage => (
+          <option key={stage} value={stage}>{STAGE_LABELS[stage]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
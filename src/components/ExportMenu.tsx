@@ -0,0 +1,41 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import type { Comment } from '../types';
+import { exportComments } from '../services/export';
+
+// --- EXPORT MENU ---
+
+export const ExportMenu = ({ comments }: { comments: Comment[] }) => {
+  const [open, setOpen] = useState(false);
+
+  const handleExport = (format: 'csv' | 'json') => {
+    exportComments(comments, format);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button 
+        onClick={() => setOpen(!open)}
+        disabled={comments.length === 0}
+        className="p-2 bg-white border border-gray-200 rounded-full text-gray-600 active:scale-95 transition-transform disabled:opacity-40"
+        title="Export"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-30 bg-white border border-gray-200 rounded-xl shadow-lg p-1 w-40">
+          <p className="px-3 py-1 text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+            {comments.length} comments
+          </p>
+          <button onClick={() => handleExport('csv')} className="w-full text-left px-3 py-2 text-sm text-gray-700 rounded-lg hover:bg-gray-100">
+            Export CSV
+          </button>
+          <button onClick={() => handleExport('json')} className="w-full text-left px-3 py-2 text-sm text-gray-700 rounded-lg hover:bg-gray-100">
+            Export JSON
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import { BookmarkPlus, RotateCcw } from 'lucide-react';
+import { INTENT_CATEGORIES, INTENT_LABELS } from '../types';
+import type { Comment, CommentFilters, DateRange, IntentCategory, StatusFilter } from '../types';
+import { DATE_RANGE_LABELS, EMPTY_FILTERS, contextOptions } from '../services/filters';
+import { PIPELINE_STAGES, STAGE_LABELS } from '../services/pipeline';
+
+// --- ADVANCED FILTERS ---
+
+interface FilterPanelProps {
+  comments: Comment[];
+  filters: CommentFilters;
+  onChange: (filters: CommentFilters) => void;
+  onSaveView: () => void;
+}
+
+const inputClass = "w-full p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all";
+const labelClass = "block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1";
+
+export const FilterPanel = ({ comments, filters, onChange, onSaveView }: FilterPanelProps) => {
+  const set = (patch: Partial<CommentFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-2xl space-y-3">
+      <div>
+        <label className={labelClass}>Video / Post</label>
+        <select className={inputClass} value={filters.context} onChange={(e) => set({ context: e.target.value })}>
+          <option value="">All videos and posts</option>
+          {contextOptions(comments).map(({ key, title }) => (
+            <option key={key} value={key}>{title}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={labelClass}>Date</label>
+        <select className={inputClass} value={filters.range} onChange={(e) => set({ range: e.target.value as DateRange })}>
+          {(Object.keys(DATE_RANGE_LABELS) as DateRange[]).map(range => (
+            <option key={range} value={range}>{DATE_RANGE_LABELS[range]}</option>
+          ))}
+        </select>
+        {filters.range === 'custom' && (
+          <div className="grid grid-cols-2 gap-3 mt-2">
+            <input type="date" className={inputClass} value={filters.from ?? ''} onChange={(e) => set({ from: e.target.value || undefined })} />
+            <input type="date" className={inputClass} value={filters.to ?? ''} onChange={(e) => set({ to: e.target.value || undefined })} />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Intent</label>
+          <select className={inputClass} value={filters.intent} onChange={(e) => set({ intent: e.target.value as IntentCategory | 'any' })}>
+            <option value="any">Any intent</option>
+            {INTENT_CATEGORIES.map(intent => (
+              <option key={intent} value={intent}>{INTENT_LABELS[intent]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Status</label>
+          <select className={inputClass} value={filters.status} onChange={(e) => set({ status: e.target.value as StatusFilter })}>
+            <option value="any">Any status</option>
+            <option value="leads">Leads only</option>
+            <option value="flagged">Flagged</option>
+            {PIPELINE_STAGES.map(stage => (
+              <option key={stage} value={stage}>{STAGE_LABELS[stage]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Min. Lead Score: {filters.minScore}</label>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          className="w-full accent-indigo-600"
+          value={filters.minScore}
+          onChange={(e) => set({ minScore: Number(e.target.value) })}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange(EMPTY_FILTERS)}
+          className="flex-1 flex items-center justify-center gap-2 bg-white border border-gray-200 text-gray-700 py-2.5 rounded-xl text-sm font-medium active:scale-95 transition-all"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset
+        </button>
+        <button
+          onClick={onSaveView}
+          className="flex-1 flex items-center justify-center gap-2 bg-indigo-600 text-white py-2.5 rounded-xl text-sm font-medium active:scale-95 transition-all"
+        >
+          <BookmarkPlus className="w-4 h-4" />
+          Save View
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import { UserCheck, UserX } from 'lucide-react';
+import type { IgnoredAuthor } from '../types';
+import { PlatformIcon } from './SourceSettings';
+import { Card } from './ui';
+
+// --- IGNORED AUTHORS SETTINGS ---
+
+interface IgnoredAuthorsCardProps {
+  authors: IgnoredAuthor[];
+  onRestore: (author: IgnoredAuthor) => void;
+}
+
+export const IgnoredAuthorsCard = ({ authors, onRestore }: IgnoredAuthorsCardProps) => (
+  <Card className="p-6">
+    <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+      <UserX className="w-5 h-5 text-gray-700" />
+      Ignored Authors
+    </h2>
+    <p className="text-xs text-gray-400 mb-4">Their comments are hidden from the inbox and never trigger alerts or webhooks.</p>
+
+    <div className="space-y-2">
+      {authors.length === 0 && (
+        <p className="text-sm text-gray-500">Nobody yet. Select comments in the inbox and tap Ignore.</p>
+      )}
+      {authors.map(author => (
+        <div key={author.key} className="flex items-center gap-3 p-3 bg-gray-50 border border-gray-200 rounded-xl">
+          <PlatformIcon platform={author.platform} />
+          <p className="flex-1 min-w-0 text-sm font-medium text-gray-900 truncate">{author.name}</p>
+          <button 
+            onClick={() => onRestore(author)}
+            className="p-2 text-gray-400 hover:text-green-600"
+            title="Stop ignoring"
+          >
+            <UserCheck className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  </Card>
+);
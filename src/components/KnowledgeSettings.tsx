@@ -0,0 +1,127 @@
+import { BookOpen, Plus, Trash2 } from 'lucide-react';
+import type { ContactLink, FaqSnippet, KnowledgeBase } from '../types';
+import { Card } from './ui';
+
+// --- KNOWLEDGE BASE SETTINGS ---
+
+const inputClass = "w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all";
+const rowInputClass = "flex-1 min-w-0 p-2 bg-white border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1";
+const addClass = "w-full flex items-center justify-center gap-2 py-2.5 border border-dashed border-gray-300 rounded-xl text-sm font-medium text-gray-600 active:scale-95 transition-all";
+
+interface KnowledgeBaseCardProps {
+  knowledge: KnowledgeBase;
+  onChange: (knowledge: KnowledgeBase) => void;
+}
+
+export const KnowledgeBaseCard = ({ knowledge, onChange }: KnowledgeBaseCardProps) => {
+  const set = (patch: Partial<KnowledgeBase>) => onChange({ ...knowledge, ...patch });
+
+  const updateLink = (index: number, patch: Partial<ContactLink>) =>
+    set({ links: knowledge.links.map((l, i) => i === index ? { ...l, ...patch } : l) });
+
+  const updateFaq = (id: string, patch: Partial<FaqSnippet>) =>
+    set({ faqs: knowledge.faqs.map(f => f.id === id ? { ...f, ...patch } : f) });
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <BookOpen className="w-5 h-5 text-gray-700" />
+        Knowledge Base
+      </h2>
+      <p className="text-xs text-gray-400 mb-4">
+        AI replies only use these facts. Drafts with figures from elsewhere or banned phrases are flagged before posting.
+      </p>
+
+      <div className="space-y-4">
+        <div>
+          <label className={labelClass}>Brokerage</label>
+          <input type="text" className={inputClass} placeholder="Acme Realty" value={knowledge.brokerage} onChange={(e) => set({ brokerage: e.target.value })} />
+        </div>
+
+        <div>
+          <label className={labelClass}>Bio</label>
+          <textarea
+            className={`${inputClass} resize-none`}
+            rows={3}
+            placeholder="Licensed in Texas since 2015, focused on first-time buyers..."
+            value={knowledge.bio}
+            onChange={(e) => set({ bio: e.target.value })}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>Service Areas (one per line)</label>
+          <textarea
+            className={`${inputClass} resize-none`}
+            rows={3}
+            placeholder={"Austin\nRound Rock\n78704"}
+            value={knowledge.serviceAreas.join('\n')}
+            onChange={(e) => set({ serviceAreas: e.target.value.split('\n') })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Contact Links</label>
+          {knowledge.links.map((link, index) => (
+            <div key={index} className="flex gap-2">
+              <input type="text" className={`${rowInputClass} max-w-[35%]`} placeholder="Website" value={link.label} onChange={(e) => updateLink(index, { label: e.target.value })} />
+              <input type="url" className={rowInputClass} placeholder="https://..." value={link.url} onChange={(e) => updateLink(index, { url: e.target.value })} />
+              <button
+                onClick={() => set({ links: knowledge.links.filter((_, i) => i !== index) })}
+                className="p-2 text-gray-400 hover:text-red-600"
+                title="Remove link"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button onClick={() => set({ links: [...knowledge.links, { label: '', url: '' }] })} className={addClass}>
+            <Plus className="w-4 h-4" />
+            Add Link
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>FAQ Snippets</label>
+          {knowledge.faqs.map(faq => (
+            <div key={faq.id} className="p-3 bg-gray-50 border border-gray-200 rounded-xl space-y-2">
+              <div className="flex gap-2">
+                <input type="text" className={rowInputClass} placeholder="Question" value={faq.question} onChange={(e) => updateFaq(faq.id, { question: e.target.value })} />
+                <button
+                  onClick={() => set({ faqs: knowledge.faqs.filter(f => f.id !== faq.id) })}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  title="Delete snippet"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <textarea
+                className="w-full p-2 bg-white border border-gray-200 rounded-lg text-sm resize-none outline-none focus:ring-2 focus:ring-indigo-500"
+                rows={2}
+                placeholder="Approved answer"
+                value={faq.answer}
+                onChange={(e) => updateFaq(faq.id, { answer: e.target.value })}
+              />
+            </div>
+          ))}
+          <button onClick={() => set({ faqs: [...knowledge.faqs, { id: crypto.randomUUID(), question: '', answer: '' }] })} className={addClass}>
+            <Plus className="w-4 h-4" />
+            Add Snippet
+          </button>
+        </div>
+
+        <div>
+          <label className={labelClass}>Banned Phrases (one per line)</label>
+          <textarea
+            className={`${inputClass} resize-none`}
+            rows={4}
+            value={knowledge.bannedPhrases.join('\n')}
+            onChange={(e) => set({ bannedPhrases: e.target.value.split('\n') })}
+          />
+          <p className="text-xs text-gray-400 mt-1">Starts with common fair-housing red flags. Never used by the AI, and flagged in any draft.</p>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,85 @@
+import { Briefcase } from 'lucide-react';
+import type { LeadRecord, PipelineStage } from '../types';
+import { PIPELINE_STAGES, STAGE_LABELS, changeStage } from '../services/pipeline';
+import { Card } from './ui';
+
+// --- LEAD RECORD EDITOR ---
+
+interface LeadPanelProps {
+  record: LeadRecord;
+  onChange: (record: LeadRecord) => void;
+}
+
+const inputClass = "w-full p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all";
+const labelClass = "block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1";
+
+export const LeadPanel = ({ record, onChange }: LeadPanelProps) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-2">
+      <Briefcase className="w-4 h-4 text-amber-600" />
+      <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Lead</h3>
+    </div>
+    <Card className="p-4 space-y-3">
+      <div>
+        <label className={labelClass}>Stage</label>
+        <select 
+          className={inputClass}
+          value={record.stage}
+          onChange={(e) => onChange(changeStage(record, e.target.value as PipelineStage))}
+        >
+          {PIPELINE_STAGES.map(stage => (
+            <option key={stage} value={stage}>{STAGE_LABELS[stage]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Owner</label>
+          <input 
+            type="text" 
+            className={inputClass}
+            placeholder="Agent name"
+            value={record.owner ?? ''}
+            onChange={(e) => onChange({ ...record, owner: e.target.value || undefined })}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Follow-up</label>
+          <input 
+            type="date" 
+            className={inputClass}
+            value={record.followUpDate ?? ''}
+            onChange={(e) => onChange({ ...record, followUpDate: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Notes</label>
+        <textarea 
+          className={`${inputClass} resize-none`}
+          rows={3}
+          placeholder="Calls, showings, preferences..."
+          value={record.notes}
+          onChange={(e) => onChange({ ...record, notes: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <p className={labelClass}>History</p>
+        <ol className="space-y-1 text-xs text-gray-500">
+          {[...record.history].reverse().map((change, i) => (
+            <li key={`${change.at}-${i}`} className="flex justify-between gap-2">
+              <span>
+                {change.from ? `${STAGE_LABELS[change.from]} → ` : 'Created as '}
+                <span className="font-medium text-gray-700">{STAGE_LABELS[change.to]}</span>
+              </span>
+              <span className="text-gray-400 whitespace-nowrap">{new Date(change.at).toLocaleDateString()}</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </Card>
+  </div>
+);
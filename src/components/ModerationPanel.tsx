@@ -0,0 +1,92 @@
+import { Ban, EyeOff, ShieldAlert, ShieldCheck, XCircle } from 'lucide-react';
+import { MODERATION_FLAGS, MODERATION_LABELS } from '../types';
+import type { Comment, ModerationFlag, ModerationStatus } from '../types';
+import { Card } from './ui';
+
+// --- MODERATION PANEL ---
+
+interface ModerationPanelProps {
+  comment: Comment;
+  // False when the platform or session doesn't allow moderating from the app
+  canModerate: boolean;
+  busy: boolean;
+  onModerate: (status: ModerationStatus, banAuthor: boolean) => void;
+  onReclassify: (flag: ModerationFlag) => void;
+}
+
+const STATUS_LABELS: Record<ModerationStatus, string> = {
+  heldForReview: 'Held for review',
+  rejected: 'Rejected',
+  published: 'Published'
+};
+
+const actionClass = "flex-1 flex items-center justify-center gap-1.5 py-2.5 rounded-xl text-sm font-medium active:scale-95 transition-all disabled:opacity-50";
+
+export const ModerationPanel = ({ comment, canModerate, busy, onModerate, onReclassify }: ModerationPanelProps) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-2">
+      <ShieldAlert className="w-4 h-4 text-purple-600" />
+      <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Moderation</h3>
+    </div>
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <select
+          className="flex-1 p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+          value={comment.moderation}
+          onChange={(e) => onReclassify(e.target.value as ModerationFlag)}
+        >
+          {MODERATION_FLAGS.map(flag => (
+            <option key={flag} value={flag}>{MODERATION_LABELS[flag]}</option>
+          ))}
+        </select>
+        {comment.moderationStatus && (
+          <span className="text-xs font-medium text-gray-500">
+            {STATUS_LABELS[comment.moderationStatus]}{comment.authorBanned ? ' · author banned' : ''}
+          </span>
+        )}
+      </div>
+
+      {canModerate ? (
+        <div className="flex gap-2">
+          <button
+            className={`${actionClass} bg-amber-50 text-amber-800 border border-amber-200`}
+            disabled={busy || comment.moderationStatus === 'heldForReview'}
+            onClick={() => onModerate('heldForReview', false)}
+          >
+            <EyeOff className="w-4 h-4" /> Hold
+          </button>
+          <button
+            className={`${actionClass} bg-red-50 text-red-700 border border-red-200`}
+            disabled={busy || comment.moderationStatus === 'rejected'}
+            onClick={() => onModerate('rejected', false)}
+          >
+            <XCircle className="w-4 h-4" /> Reject
+          </button>
+          <button
+            className={`${actionClass} bg-red-600 text-white`}
+            disabled={busy || comment.authorBanned}
+            onClick={() => onModerate('rejected', true)}
+          >
+            <Ban className="w-4 h-4" /> Ban
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">
+          {comment.platform === 'youtube'
+            ? "Sign in with Google to hold, reject or ban from here."
+            : "Hide or delete this comment on Facebook directly."}
+        </p>
+      )}
+
+      {canModerate && comment.moderationStatus && comment.moderationStatus !== 'published' && (
+        <button
+          className="w-full flex items-center justify-center gap-1.5 text-sm text-gray-600 py-1 disabled:opacity-50"
+          disabled={busy}
+          onClick={() => onModerate('published', false)}
+        >
+          <ShieldCheck className="w-4 h-4" /> Publish again
+        </button>
+      )}
+    </Card>
+  </div>
+);
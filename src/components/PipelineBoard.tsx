@@ -0,0 +1,64 @@
+import { CalendarClock, User } from 'lucide-react';
+import type { Comment } from '../types';
+import { PIPELINE_STAGES, STAGE_LABELS, leadRecordFor } from '../services/pipeline';
+import { Badge, Card } from './ui';
+
+// --- PIPELINE BOARD ---
+
+interface PipelineBoardProps {
+  leads: Comment[];
+  onSelect: (comment: Comment) => void;
+}
+
+const isOverdue = (date?: string) => Boolean(date) && new Date(`${date}T23:59:59`) < new Date();
+
+export const PipelineBoard = ({ leads, onSelect }: PipelineBoardProps) => (
+  <div className="flex gap-3 overflow-x-auto pb-4 -mx-4 px-4 snap-x">
+    {PIPELINE_STAGES.map(stage => {
+      const column = leads
+        .filter(c => leadRecordFor(c).stage === stage)
+        .sort((a, b) => b.leadScore - a.leadScore);
+
+      return (
+        <div key={stage} className="w-64 flex-shrink-0 snap-start">
+          <div className="flex items-center justify-between mb-2 px-1">
+            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">{STAGE_LABELS[stage]}</h3>
+            <span className="text-xs font-medium text-gray-400">{column.length}</span>
+          </div>
+          <div className="space-y-2 min-h-[4rem] bg-gray-100/60 rounded-2xl p-2">
+            {column.map(comment => {
+              const record = leadRecordFor(comment);
+              return (
+                <div 
+                  key={comment.id}
+                  onClick={() => onSelect(comment)}
+                  className="active:scale-[0.98] transition-transform duration-200 ease-out cursor-pointer"
+                >
+                  <Card className="p-3">
+                    <div className="flex items-center gap-2 mb-2">
+                      <img src={comment.thumbnail} alt="" className="w-5 h-5 rounded-full bg-gray-100" />
+                      <span className="text-xs font-bold text-gray-700 truncate flex-1">{comment.authorDisplayName}</span>
+                    </div>
+                    <p className="text-xs text-gray-600 line-clamp-2 mb-2">{comment.textDisplay}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-[10px] text-gray-400">
+                      <Badge score={comment.leadScore} />
+                      {record.owner && (
+                        <span className="flex items-center gap-0.5"><User className="w-3 h-3" />{record.owner}</span>
+                      )}
+                      {record.followUpDate && (
+                        <span className={`flex items-center gap-0.5 ${isOverdue(record.followUpDate) ? 'text-red-600 font-semibold' : ''}`}>
+                          <CalendarClock className="w-3 h-3" />
+                          {new Date(`${record.followUpDate}T00:00:00`).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                  </Card>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
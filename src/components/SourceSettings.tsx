@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Facebook, Plus, Radio, Trash2, Youtube } from 'lucide-react';
+import type { Platform, SourceConfig } from '../types';
+import { PLATFORM_LABELS } from '../types';
+import { sourceIdFor } from '../services/sources';
+import { Card } from './ui';
+
+// --- COMMENT SOURCES SETTINGS ---
+
+const inputClass = "w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all";
+const labelClass = "block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1";
+
+export const PlatformIcon = ({ platform, className = "w-4 h-4" }: { platform: Platform; className?: string }) =>
+  platform === 'facebook'
+    ? <Facebook className={`${className} text-blue-600`} />
+    : <Youtube className={`${className} text-red-600`} />;
+
+interface SourceSettingsProps {
+  sources: SourceConfig[];
+  onAdd: (source: SourceConfig) => void;
+  onRemove: (source: SourceConfig) => void;
+}
+
+export const SourceSettings = ({ sources, onAdd, onRemove }: SourceSettingsProps) => {
+  const [platform, setPlatform] = useState<Platform>('youtube');
+  const [externalId, setExternalId] = useState('');
+  const [name, setName] = useState('');
+  const [accessToken, setAccessToken] = useState('');
+
+  const id = sourceIdFor(platform, externalId.trim());
+  const canAdd = externalId.trim() && (platform === 'youtube' || accessToken.trim()) && !sources.some(s => s.id === id);
+
+  const handleAdd = () => {
+    onAdd({
+      id,
+      platform,
+      externalId: externalId.trim(),
+      name: name.trim() || externalId.trim(),
+      accessToken: platform === 'facebook' ? accessToken.trim() : undefined
+    });
+    setExternalId('');
+    setName('');
+    setAccessToken('');
+  };
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Radio className="w-5 h-5 text-gray-700" />
+        Comment Sources
+      </h2>
+
+      <div className="space-y-4">
+        {sources.length === 0 && (
+          <p className="text-sm text-gray-500">No sources yet. Signing in with Google adds your channel automatically.</p>
+        )}
+        {sources.map(source => (
+          <div key={source.id} className="flex items-center gap-3 p-3 bg-gray-50 border border-gray-200 rounded-xl">
+            <PlatformIcon platform={source.platform} />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{source.name}</p>
+              <p className="text-xs text-gray-400 truncate">{PLATFORM_LABELS[source.platform]} · {source.externalId}</p>
+            </div>
+            <button 
+              onClick={() => onRemove(source)}
+              className="p-2 text-gray-400 hover:text-red-600"
+              title="Remove source"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        <div className="pt-2 border-t border-gray-100 space-y-3">
+          <div>
+            <label className={labelClass}>Platform</label>
+            <select className={inputClass} value={platform} onChange={(e) => setPlatform(e.target.value as Platform)}>
+              <option value="youtube">YouTube channel</option>
+              <option value="facebook">Facebook Page</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{platform === 'youtube' ? 'Channel ID' : 'Page ID'}</label>
+            <input 
+              type="text" 
+              className={inputClass}
+              placeholder={platform === 'youtube' ? 'UC_x5...' : '1234567890'}
+              value={externalId}
+              onChange={(e) => setExternalId(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Display Name</label>
+            <input 
+              type="text" 
+              className={inputClass}
+              placeholder="Downtown Team Channel"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          {platform === 'facebook' && (
+            <div>
+              <label className={labelClass}>Page Access Token</label>
+              <input 
+                type="password" 
+                className={inputClass}
+                placeholder="EAAB..."
+                value={accessToken}
+                onChange={(e) => setAccessToken(e.target.value)}
+              />
+              <p className="text-xs text-gray-400 mt-1">Needs pages_read_engagement and pages_manage_engagement.</p>
+            </div>
+          )}
+          <button 
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="w-full flex items-center justify-center gap-2 py-3 border border-dashed border-gray-300 rounded-xl text-sm font-medium text-gray-600 active:scale-95 transition-all disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add Source
+          </button>
+        </div>
+      </div>
+    </Card>
+  );
+};
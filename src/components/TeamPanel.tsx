@@ -0,0 +1,56 @@
+import { History, UserPlus } from 'lucide-react';
+import type { ActivityEntry } from '../types';
+import { Card } from './ui';
+
+// --- ASSIGNMENT & ACTIVITY ---
+
+interface TeamPanelProps {
+  assignee?: string;
+  members: string[];
+  // This comment's entries, oldest first
+  activity: ActivityEntry[];
+  onAssign: (member: string | undefined) => void;
+}
+
+export const TeamPanel = ({ assignee, members, activity, onAssign }: TeamPanelProps) => {
+  // An assignee who left the workspace should still show up
+  const options = assignee && !members.includes(assignee) ? [...members, assignee] : members;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <History className="w-4 h-4 text-sky-600" />
+        <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Team</h3>
+      </div>
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <UserPlus className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <select
+            className="flex-1 p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+            value={assignee ?? ''}
+            onChange={(e) => onAssign(e.target.value || undefined)}
+          >
+            <option value="">Unassigned</option>
+            {options.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+
+        {activity.length === 0 ? (
+          <p className="text-xs text-gray-400">No activity yet.</p>
+        ) : (
+          <ol className="space-y-2 border-l-2 border-gray-100 pl-3">
+            {[...activity].reverse().map(entry => (
+              <li key={entry.id} className="text-xs">
+                <span className="font-semibold text-gray-700">{entry.member}</span>
+                <span className="text-gray-600"> {entry.action}</span>
+                <span className="block text-[10px] text-gray-400">{new Date(entry.at).toLocaleString()}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { LogOut, Users } from 'lucide-react';
+import type { PresenceEntry } from '../types';
+import { DEFAULT_TEAM_SERVER } from '../services/team';
+import { loadServerToken } from '../services/proxy';
+import type { TeamConfig, TeamStatus } from '../services/team';
+import { Card } from './ui';
+
+// --- TEAM WORKSPACE SETTINGS ---
+
+const inputClass = "w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all";
+const labelClass = "block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1";
+
+const STATUS_LABELS: Record<TeamStatus, string> = {
+  off: 'Not connected',
+  connecting: 'Connecting…',
+  online: 'Connected',
+  offline: 'Server unreachable, retrying…'
+};
+
+const STATUS_STYLES: Record<TeamStatus, string> = {
+  off: 'bg-gray-300',
+  connecting: 'bg-amber-400',
+  online: 'bg-green-500',
+  offline: 'bg-red-500'
+};
+
+interface TeamSettingsCardProps {
+  config: TeamConfig | null;
+  // Name the server knows this agent by, once connected
+  member: string;
+  status: TeamStatus;
+  members: string[];
+  presence: PresenceEntry[];
+  onChange: (config: TeamConfig | null) => void;
+}
+
+export const TeamSettingsCard = ({ config, member, status, members, presence, onChange }: TeamSettingsCardProps) => {
+  const [serverUrl, setServerUrl] = useState(DEFAULT_TEAM_SERVER);
+  const [workspace, setWorkspace] = useState('');
+  const [token, setToken] = useState(loadServerToken);
+
+  const canJoin = serverUrl.trim() && workspace.trim() && token.trim();
+  const active = new Set(presence.map(p => p.member));
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <Users className="w-5 h-5 text-gray-700" />
+        Team Workspace
+      </h2>
+      <p className="text-xs text-gray-400 mb-4">
+        Share the inbox with your team through the LeadStream server: assignments, done status and leads sync live.
+      </p>
+
+      {config ? (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3 p-3 bg-gray-50 border border-gray-200 rounded-xl">
+            <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${STATUS_STYLES[status]}`} />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{config.workspace}{member && ` · ${member}`}</p>
+              <p className="text-xs text-gray-400 truncate">{STATUS_LABELS[status]} · {config.serverUrl}</p>
+            </div>
+            <button
+              onClick={() => onChange(null)}
+              className="flex items-center gap-1 text-sm text-gray-600 px-3 py-2 bg-white border border-gray-200 rounded-lg active:scale-95 transition-all"
+            >
+              <LogOut className="w-4 h-4" />
+              Leave
+            </button>
+          </div>
+          {members.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {members.map(name => (
+                <span key={name} className="flex items-center gap-1 text-xs bg-white border border-gray-200 text-gray-600 px-2 py-1 rounded-full">
+                  {active.has(name) && <span className="w-1.5 h-1.5 rounded-full bg-green-500" />}
+                  {name}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div>
+            <label className={labelClass}>Server</label>
+            <input type="url" className={inputClass} value={serverUrl} onChange={(e) => setServerUrl(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Workspace</label>
+              <input type="text" className={inputClass} placeholder="my-channel" value={workspace} onChange={(e) => setWorkspace(e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Your Token</label>
+              <input type="password" className={inputClass} value={token} onChange={(e) => setToken(e.target.value)} />
+            </div>
+          </div>
+          <button
+            onClick={() => onChange({ serverUrl: serverUrl.trim(), workspace: workspace.trim(), token: token.trim() })}
+            disabled={!canJoin}
+            className="w-full bg-gray-900 text-white py-3 rounded-xl font-semibold active:scale-95 transition-all disabled:opacity-50"
+          >
+            Join Workspace
+          </button>
+          <p className="text-xs text-gray-400">Everyone on the team uses the same workspace name with their own token from the server; your name comes with the token. Works in live mode only.</p>
+        </div>
+      )}
+    </Card>
+  );
+};
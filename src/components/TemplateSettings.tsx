@@ -0,0 +1,109 @@
+import { FileText, Plus, Trash2, UserCircle } from 'lucide-react';
+import type { AgentProfile, IntentCategory, ReplyTemplate } from '../types';
+import { INTENT_CATEGORIES, INTENT_LABELS } from '../types';
+import { TEMPLATE_VARIABLES } from '../services/templates';
+import { Card } from './ui';
+
+// --- TEMPLATE & PROFILE SETTINGS ---
+
+const inputClass = "w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all";
+const labelClass = "block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1";
+
+const PROFILE_FIELDS: [keyof AgentProfile, string, string][] = [
+  ['name', 'Name', 'Jane Doe'],
+  ['email', 'Email', 'jane@brokerage.com'],
+  ['phone', 'Phone', '(555) 123-4567'],
+  ['instagram', 'Instagram', '@janedoe.realty'],
+  ['calendarLink', 'Calendar Link', 'https://calendly.com/...']
+];
+
+export const AgentProfileCard = ({ profile, onChange }: { profile: AgentProfile; onChange: (profile: AgentProfile) => void }) => (
+  <Card className="p-6">
+    <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+      <UserCircle className="w-5 h-5 text-gray-700" />
+      Agent Profile
+    </h2>
+    <div className="space-y-4">
+      {PROFILE_FIELDS.map(([field, label, placeholder]) => (
+        <div key={field}>
+          <label className={labelClass}>{label}</label>
+          <input 
+            type="text" 
+            className={inputClass}
+            placeholder={placeholder}
+            value={profile[field]}
+            onChange={(e) => onChange({ ...profile, [field]: e.target.value })}
+          />
+        </div>
+      ))}
+    </div>
+  </Card>
+);
+
+interface TemplateLibraryCardProps {
+  templates: ReplyTemplate[];
+  onChange: (templates: ReplyTemplate[]) => void;
+}
+
+export const TemplateLibraryCard = ({ templates, onChange }: TemplateLibraryCardProps) => {
+  const update = (id: string, patch: Partial<ReplyTemplate>) =>
+    onChange(templates.map(t => t.id === id ? { ...t, ...patch } : t));
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <FileText className="w-5 h-5 text-gray-700" />
+        Reply Templates
+      </h2>
+      <p className="text-xs text-gray-400 mb-4">
+        Variables: {TEMPLATE_VARIABLES.map(v => `{${v}}`).join(' ')}
+      </p>
+
+      <div className="space-y-4">
+        {templates.map(template => (
+          <div key={template.id} className="p-3 bg-gray-50 border border-gray-200 rounded-xl space-y-2">
+            <div className="flex gap-2">
+              <input 
+                type="text" 
+                className="flex-1 min-w-0 p-2 bg-white border border-gray-200 rounded-lg text-sm font-medium outline-none focus:ring-2 focus:ring-indigo-500"
+                value={template.name}
+                onChange={(e) => update(template.id, { name: e.target.value })}
+              />
+              <select 
+                className="p-2 bg-white border border-gray-200 rounded-lg text-sm outline-none"
+                value={template.intent}
+                onChange={(e) => update(template.id, { intent: e.target.value as IntentCategory | 'any' })}
+              >
+                <option value="any">Any intent</option>
+                {INTENT_CATEGORIES.map(intent => (
+                  <option key={intent} value={intent}>{INTENT_LABELS[intent]}</option>
+                ))}
+              </select>
+              <button 
+                onClick={() => onChange(templates.filter(t => t.id !== template.id))}
+                className="p-2 text-gray-400 hover:text-red-600"
+                title="Delete template"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <textarea 
+              className="w-full p-2 bg-white border border-gray-200 rounded-lg text-sm resize-none outline-none focus:ring-2 focus:ring-indigo-500"
+              rows={3}
+              value={template.body}
+              onChange={(e) => update(template.id, { body: e.target.value })}
+            />
+          </div>
+        ))}
+
+        <button 
+          onClick={() => onChange([...templates, { id: crypto.randomUUID(), name: 'New template', intent: 'any', body: 'Hi {firstName}! ' }])}
+          className="w-full flex items-center justify-center gap-2 py-3 border border-dashed border-gray-300 rounded-xl text-sm font-medium text-gray-600 active:scale-95 transition-all"
+        >
+          <Plus className="w-4 h-4" />
+          Add Template
+        </button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,33 @@
+import { MessagesSquare } from 'lucide-react';
+import type { ThreadMessage } from '../types';
+
+// --- CONVERSATION THREAD ---
+
+export const ThreadView = ({ thread }: { thread: ThreadMessage[] }) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-2">
+      <MessagesSquare className="w-4 h-4 text-gray-500" />
+      <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Thread ({thread.length})</h3>
+    </div>
+    <ol className="space-y-2 border-l-2 border-gray-200 ml-4 pl-4">
+      {thread.map(message => (
+        <li 
+          key={message.id} 
+          className={`rounded-2xl p-3 border ${message.fromOwner ? 'bg-green-50 border-green-100' : 'bg-white border-gray-100 shadow-sm'}`}
+        >
+          <div className="flex items-center gap-2 mb-1">
+            <img src={message.thumbnail} alt="" className="w-5 h-5 rounded-full bg-gray-100" />
+            <span className="text-xs font-bold text-gray-700 truncate">{message.authorDisplayName}</span>
+            {message.fromOwner && (
+              <span className="text-[10px] font-bold text-green-700 bg-green-100 px-1.5 py-0.5 rounded">YOU</span>
+            )}
+            <span className="ml-auto text-[10px] text-gray-400 whitespace-nowrap">
+              {new Date(message.publishedAt).toLocaleDateString()}
+            </span>
+          </div>
+          <p className="text-sm text-gray-800 leading-relaxed">{message.textDisplay}</p>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Flame, Thermometer, Snowflake, ShieldAlert } from 'lucide-react';
+import { MODERATION_LABELS } from '../types';
+import type { LeadTier, ModerationFlag } from '../types';
+import { leadTier } from '../services/analysis';
+
+// --- SHARED UI ---
+
+export const Card = ({ children, className = "" }: { children: React.ReactNode; className?: string }) => (
+  <div className={`bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden ${className}`}>
+    {children}
+  </div>
+);
+
+const TIER_STYLES: Record<LeadTier, { label: string; className: string; Icon: typeof Flame }> = {
+  hot: { label: 'Hot', className: 'bg-red-100 text-red-800 border-red-200', Icon: Flame },
+  warm: { label: 'Warm', className: 'bg-orange-100 text-orange-800 border-orange-200', Icon: Thermometer },
+  cold: { label: 'Cold', className: 'bg-gray-100 text-gray-600 border-gray-200', Icon: Snowflake }
+};
+
+export const Badge = ({ score }: { score: number }) => {
+  const { label, className, Icon } = TIER_STYLES[leadTier(score)];
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${className}`}>
+      <Icon className="w-3 h-3 mr-1" />
+      {label} · {score}
+    </span>
+  );
+};
+
+const MODERATION_STYLES: Record<Exclude<ModerationFlag, 'clean'>, string> = {
+  spam: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  scam: 'bg-purple-100 text-purple-800 border-purple-200',
+  bot: 'bg-slate-100 text-slate-700 border-slate-200',
+  toxic: 'bg-rose-100 text-rose-800 border-rose-200'
+};
+
+export const ModerationBadge = ({ flag }: { flag: ModerationFlag }) => {
+  if (flag === 'clean') return null;
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${MODERATION_STYLES[flag]}`}>
+      <ShieldAlert className="w-3 h-3 mr-1" />
+      {MODERATION_LABELS[flag]}
+    </span>
+  );
+};
@@ -0,0 +1,278 @@
+import { INTENT_CATEGORIES, MODERATION_FLAGS, MODERATION_LABELS } from '../types';
+import type { AIAnalysisResult, IntentCategory, LeadEntities, LeadTier, ModerationFlag, ThreadMessage } from '../types';
+import type { GeminiClient } from './gemini';
+import { detectModeration, FLAGGED_MAX_SCORE } from './moderation';
+import { detectLanguage, isEnglish } from './language';
+
+// --- LEAD CLASSIFICATION ---
+
+const ENTITY_FIELDS: (keyof LeadEntities)[] = ['budget', 'timeline', 'location', 'email', 'phone'];
+
+// Scores at or above this count as a lead
+export const LEAD_SCORE_THRESHOLD = 40;
+
+const ANALYSIS_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    isLead: { type: 'BOOLEAN' },
+    score: { type: 'INTEGER' },
+    intent: { type: 'STRING', enum: INTENT_CATEGORIES },
+    entities: {
+      type: 'OBJECT',
+      properties: Object.fromEntries(ENTITY_FIELDS.map(field => [field, { type: 'STRING' }]))
+    },
+    moderation: { type: 'STRING', enum: MODERATION_FLAGS },
+    language: { type: 'STRING' },
+    translation: { type: 'STRING' },
+    reason: { type: 'STRING' },
+    reply: { type: 'STRING' },
+    replyEnglish: { type: 'STRING' }
+  },
+  required: ['isLead', 'score', 'intent', 'entities', 'moderation', 'language', 'reason', 'reply']
+};
+
+// Replies under the comment, used as context for the classification
+export interface ConversationContext {
+  author: string;
+  thread: ThreadMessage[];
+}
+
+const formatThread = ({ author, thread }: ConversationContext) =>
+  thread
+    .map(m => `${m.fromOwner ? 'Channel owner' : m.authorDisplayName === author ? 'Commenter' : m.authorDisplayName}: ${m.textDisplay}`)
+    .join('\n');
+
+// Everything the original commenter wrote, top-level comment first
+export const commenterText = (text: string, context?: ConversationContext) =>
+  [text, ...(context?.thread ?? []).filter(m => !m.fromOwner && m.authorDisplayName === context?.author).map(m => m.textDisplay)].join('\n');
+
+// `grounding` is the agent's knowledge base (see knowledge.ts); replies may
+// only use facts from it
+export const buildAnalysisPrompt = (text: string, context?: ConversationContext, grounding = '') => `You triage YouTube comments for a real estate agent's channel.
+Decide whether the comment below comes from a potential lead: someone who wants to buy, sell, rent or invest in property, or who asks to get in touch.
+Compliments, jokes and generic questions are not leads.
+Comments can be in any language. Judge them by meaning, the same way whatever the language: "Estoy buscando comprar una casa" is a buyer lead.
+
+Score the lead from 0 to 100: 0 is no interest at all, 40+ is a genuine lead, 70+ is ready to act (concrete budget, timeline or location, or contact details).
+Pick one intent: ${INTENT_CATEGORIES.join(', ')}. Use "agent_referral" when the person asks to be put in touch with an agent elsewhere.
+Extract only details that are stated in the comment: budget, timeline, location (city, neighborhood or zip code), email, phone. Omit anything not mentioned.
+Also moderate the comment: "scam" for get-rich schemes, fake testimonials or requests to move to WhatsApp/Telegram; "spam" for self-promotion, links or giveaways; "bot" for generic copy-paste text; "toxic" for insults or harassment; otherwise "clean". A flagged comment is never a lead, however it is worded.
+In the reply, never invent contact details: write {firstName}, {email}, {phone}, {instagram} or {calendarLink} and they will be filled in from the agent's profile.
+Give the comment's language as an ISO 639-1 code ("en", "es", "zh", ...). If it is not English, add an English translation of the comment, write the reply in the commenter's language and add an English version of the reply for the agent. Write the reason and entity values in English.${grounding ? `
+
+${grounding}` : ''}
+
+Respond with JSON only, in this exact shape:
+{"isLead": boolean, "score": number, "intent": string, "entities": {"budget"?: string, "timeline"?: string, "location"?: string, "email"?: string, "phone"?: string}, "moderation": "${MODERATION_FLAGS.join('" | "')}", "language": string, "translation"?: "English translation, only for non-English comments", "reason": "one sentence explaining the decision", "reply": "a short, friendly reply the agent can post, in the commenter's language", "replyEnglish"?: "the reply in English, only for non-English comments"}
+
+Comment:
+"""${text}"""${context?.thread.length ? `
+
+Replies in the thread so far (oldest first). Judge the commenter on everything they wrote, including follow-ups; details like budget or timeline often only appear there. Write the reply to their latest message:
+${formatThread(context)}` : ''}`;
+
+export const leadTier = (score: number): LeadTier => {
+  if (score >= 70) return 'hot';
+  if (score >= LEAD_SCORE_THRESHOLD) return 'warm';
+  return 'cold';
+};
+
+// Regex pass for details that are easy to spot; also fills gaps the model leaves.
+export const extractEntities = (text: string): LeadEntities => {
+  const entities: LeadEntities = {};
+  const email = text.match(/[\w.+-]+@[\w-]+\.[\w.-]+/);
+  const phone = text.match(/(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/);
+  const budget = text.match(/\$\s?\d[\d,.]*\s?(?:k|m|mil|million|thousand)?\b/i)
+    ?? text.match(/\d+(?:\.\d+)?\s*万(?:美元|美金|元)?/);
+  const timeline = text.match(/\b(?:asap|(?:next|this|within|in)\s+(?:\d+\s+|a\s+few\s+)?(?:days?|weeks?|months?|years?|spring|summer|fall|autumn|winter))\b/i)
+    ?? text.match(/(?:el\s+)?(?:próximo|proximo|este|en)\s+(?:\d+\s+)?(?:mes(?:es)?|años?|verano|invierno|otoño|primavera)/i)
+    ?? text.match(/下个月|下半年|明年|今年|年底|\d+\s*个月内/);
+  const zip = text.match(/\b\d{5}(?:-\d{4})?\b/);
+
+  if (email) entities.email = email[0];
+  if (phone) entities.phone = phone[0].trim();
+  if (budget) entities.budget = budget[0].replace(/\s+/g, '');
+  if (timeline) entities.timeline = timeline[0];
+  if (zip) entities.location = zip[0];
+  return entities;
+};
+
+// English first, then Spanish, Portuguese, French and Chinese, the other
+// languages our audience comments in most. Latin-script keywords match whole
+// words only ("lease" is not in "please"); a trailing * allows any ending,
+// as in "relocat*". Chinese has no spaces, so those match anywhere.
+const INTENT_KEYWORDS: [IntentCategory, string[]][] = [
+  ['investor', ['invest*', 'cap rate', 'rental income', 'duplex*', 'flip*', 'roi', 'invertir', 'inversión', 'rentabilidad', 'investir', '投资', '回报率', '租金回报']],
+  ['seller', ['sell*', 'listing my', 'list my', 'what is my home worth', 'vender', 'vendre', 'cuánto vale mi casa', '卖房', '出售']],
+  ['renter', ['for rent', 'to rent', 'renting', 'lease', 'leasing', 'apartment*', 'alquil*', 'rentar', 'arrendar', 'alugar', 'louer', '租房', '出租']],
+  ['agent_referral', ['recommend an agent', 'recommended buyer agents', 'agent in', 'referral', 'recomendar un agente', 'recomiendas un agente', '推荐经纪']],
+  ['buyer', ['buy*', 'move to', 'looking to move', 'relocat*', 'pre-approved', 'mortgage*', 'first home', 'comprar', 'mudarme', 'mudarnos', 'hipoteca', 'primera casa', 'acheter', '买房', '购房', '买一套', '贷款', '搬到']]
+];
+
+const CONTACT_KEYWORDS = ['help', 'contact', 'ayuda', 'ayudar', 'contactar', 'ajuda', '帮', '联系'];
+
+const CJK = /[\u3040-\u30ff\u4e00-\u9fff\uac00-\ud7af]/;
+
+const keywordPattern = (keyword: string) => {
+  const escaped = keyword.replace(/\*$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (CJK.test(keyword)) return new RegExp(escaped);
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}${keyword.endsWith('*') ? '' : '(?![\\p{L}\\p{N}])'}`, 'u');
+};
+
+const INTENT_PATTERNS = INTENT_KEYWORDS.map(([intent, words]): [IntentCategory, RegExp[]] => [intent, words.map(keywordPattern)]);
+const CONTACT_PATTERNS = CONTACT_KEYWORDS.map(keywordPattern);
+
+// Canned replies for the heuristic, with the English version the agent sees
+const CANNED_REPLIES: Record<string, string> = {
+  en: "Thank you for watching, {firstName}! Let me know if you have questions.",
+  es: "¡Gracias por ver el video, {firstName}! Avísame si tienes alguna pregunta.",
+  pt: "Obrigado por assistir, {firstName}! Me avise se tiver alguma dúvida.",
+  fr: "Merci d'avoir regardé, {firstName} ! N'hésitez pas si vous avez des questions.",
+  zh: "{firstName}，感谢观看！如果有任何问题，欢迎随时问我。"
+};
+
+export const cannedReply = (language: string): Pick<AIAnalysisResult, 'reply' | 'replyEnglish'> =>
+  isEnglish(language) || !CANNED_REPLIES[language]
+    ? { reply: CANNED_REPLIES.en }
+    : { reply: CANNED_REPLIES[language], replyEnglish: CANNED_REPLIES.en };
+
+// Flagged comments are kept out of the lead list whatever else was detected
+const applyModeration = (result: AIAnalysisResult, moderation: ModerationFlag): AIAnalysisResult =>
+  moderation === 'clean'
+    ? result
+    : { ...result, moderation, isLead: false, score: Math.min(result.score, FLAGGED_MAX_SCORE) };
+
+// Keyword check used when Gemini is unavailable or returns something unusable.
+// Without a model there is no translation; the language is still detected
+// so the reply and intent keywords fit the commenter.
+export const heuristicAnalysis = (text: string): AIAnalysisResult => {
+  const moderation = detectModeration(text);
+  const language = detectLanguage(text);
+  if (moderation !== 'clean') {
+    return applyModeration({
+      isLead: false,
+      score: 0,
+      intent: 'other',
+      entities: {},
+      moderation,
+      language,
+      reason: `Looks like ${MODERATION_LABELS[moderation].toLowerCase()}.`,
+      reply: ''
+    }, moderation);
+  }
+
+  const lower = text.toLowerCase();
+  const entities = extractEntities(text);
+  const intent = INTENT_PATTERNS.find(([, patterns]) => patterns.some(p => p.test(lower)))?.[0] ?? 'other';
+  const asksForContact = CONTACT_PATTERNS.some(p => p.test(lower));
+
+  let score = intent !== 'other' ? 45 : asksForContact ? 40 : 5;
+  if (entities.budget) score += 20;
+  if (entities.timeline) score += 15;
+  if (entities.email || entities.phone) score += 15;
+  if (entities.location) score += 5;
+  score = Math.min(score, 100);
+
+  const isLead = score >= LEAD_SCORE_THRESHOLD;
+  return {
+    isLead,
+    score,
+    intent,
+    entities,
+    moderation,
+    language,
+    reason: isLead ? "Detected intent keywords." : "General comment.",
+    ...cannedReply(language)
+  };
+};
+
+const parseEntities = (value: unknown): LeadEntities | null => {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object') return null;
+  const entities: LeadEntities = {};
+  for (const field of ENTITY_FIELDS) {
+    const raw = (value as Record<string, unknown>)[field];
+    if (typeof raw === 'string' && raw.trim()) entities[field] = raw.trim();
+  }
+  return entities;
+};
+
+// Translations only matter for non-English comments; models sometimes echo
+// the original text back for English ones
+const parseLanguage = (language: string, translation: unknown, replyEnglish: unknown): Pick<AIAnalysisResult, 'language' | 'translation' | 'replyEnglish'> => {
+  const code = language.trim().toLowerCase().split('-')[0];
+  if (isEnglish(code)) return { language: code };
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  return { language: code, translation: text(translation), replyEnglish: text(replyEnglish) };
+};
+
+// Accepts the raw model output (optionally wrapped in a ```json fence) and
+// returns a result only if every field has the expected type.
+export const parseAnalysis = (raw: string): AIAnalysisResult | null => {
+  const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  const { isLead, score, intent, entities, moderation, language, translation, reason, reply, replyEnglish } = parsed as Record<string, unknown>;
+  if (typeof isLead !== 'boolean' || typeof reason !== 'string' || typeof reply !== 'string') return null;
+  if (!reason.trim() || !reply.trim()) return null;
+  if (typeof language !== 'string' || !/^[a-z]{2,3}(?:-[a-z]+)?$/i.test(language.trim())) return null;
+  if (typeof score !== 'number' || !Number.isFinite(score)) return null;
+  if (!INTENT_CATEGORIES.includes(intent as IntentCategory)) return null;
+  if (!MODERATION_FLAGS.includes(moderation as ModerationFlag)) return null;
+  const parsedEntities = parseEntities(entities);
+  if (!parsedEntities) return null;
+
+  // The badge and the Leads list go by the score, so the flag follows it
+  // even when the model's own isLead disagrees
+  const rounded = Math.round(Math.min(100, Math.max(0, score)));
+  return {
+    isLead: rounded >= LEAD_SCORE_THRESHOLD,
+    score: rounded,
+    intent: intent as IntentCategory,
+    entities: parsedEntities,
+    moderation: moderation as ModerationFlag,
+    ...parseLanguage(language, translation, replyEnglish),
+    reason: reason.trim(),
+    reply: reply.trim()
+  };
+};
+
+export const analyzeComment = async (client: GeminiClient, text: string, context?: ConversationContext, grounding?: string): Promise<AIAnalysisResult> => {
+  const fullText = commenterText(text, context);
+  try {
+    const raw = await client.generate(buildAnalysisPrompt(text, context, grounding), ANALYSIS_SCHEMA);
+    const result = parseAnalysis(raw);
+    if (result) {
+      // The keyword pass catches scams the model waves through
+      const moderation = result.moderation === 'clean' ? detectModeration(fullText) : result.moderation;
+      return applyModeration({ ...result, entities: { ...extractEntities(fullText), ...result.entities } }, moderation);
+    }
+    console.warn('Gemini returned malformed analysis, using heuristic.', raw);
+  } catch (error) {
+    console.error('Gemini analysis failed, using heuristic.', error);
+  }
+  return heuristicAnalysis(fullText);
+};
+
+// A big first sync can bring hundreds of comments; Gemini rate-limits bursts
+export const ANALYSIS_CONCURRENCY = 4;
+
+// Like `Promise.all(items.map(task))` with at most `limit` tasks running
+export const mapWithLimit = async <T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
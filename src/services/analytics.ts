@@ -0,0 +1,123 @@
+import { INTENT_CATEGORIES } from '../types';
+import type { Comment, IntentCategory } from '../types';
+import { contextKey } from './filters';
+
+// --- LEAD ANALYTICS ---
+// Everything is derived from the comment history on the device; nothing is
+// tracked separately.
+
+export interface VideoStats {
+  key: string;
+  title: string;
+  thumbnail?: string;
+  comments: number;
+  leads: number;
+  buyers: number;
+  // Share of comments flagged as leads, 0..1
+  leadRate: number;
+}
+
+export interface WeekStats {
+  // Monday of the week, yyyy-mm-dd
+  weekStart: string;
+  comments: number;
+  leads: number;
+  replied: number;
+}
+
+export interface Summary {
+  comments: number;
+  leads: number;
+  // Share of comments / leads that got a reply, 0..1
+  replyCoverage: number;
+  leadReplyCoverage: number;
+  // Median minutes from comment to reply; null without any timed reply
+  medianReplyMinutes: number | null;
+}
+
+const ratio = (part: number, whole: number) => whole ? part / whole : 0;
+
+export const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Only replies with a known time count (posted from the app or seen in the
+// thread); comments merely marked done have no reply time.
+export const replyMinutes = (comments: Comment[]) =>
+  comments
+    .filter(c => c.replied && c.repliedAt)
+    .map(c => (new Date(c.repliedAt as string).getTime() - new Date(c.publishedAt).getTime()) / 60000)
+    .filter(minutes => minutes >= 0);
+
+export const summarize = (comments: Comment[]): Summary => {
+  const leads = comments.filter(c => c.isLead);
+  return {
+    comments: comments.length,
+    leads: leads.length,
+    replyCoverage: ratio(comments.filter(c => c.replied).length, comments.length),
+    leadReplyCoverage: ratio(leads.filter(c => c.replied).length, leads.length),
+    medianReplyMinutes: median(replyMinutes(comments))
+  };
+};
+
+export const videoStats = (comments: Comment[]): VideoStats[] => {
+  const groups = new Map<string, Comment[]>();
+  comments.forEach(c => groups.set(contextKey(c), [...(groups.get(contextKey(c)) ?? []), c]));
+
+  return [...groups].map(([key, group]) => {
+    const leads = group.filter(c => c.isLead);
+    return {
+      key,
+      title: group[0].videoTitle,
+      thumbnail: group.find(c => c.videoThumbnail)?.videoThumbnail,
+      comments: group.length,
+      leads: leads.length,
+      buyers: leads.filter(c => c.intent === 'buyer').length,
+      leadRate: ratio(leads.length, group.length)
+    };
+  }).sort((a, b) => b.leads - a.leads || b.leadRate - a.leadRate);
+};
+
+export const intentBreakdown = (comments: Comment[]): { intent: IntentCategory; count: number }[] =>
+  INTENT_CATEGORIES
+    .map(intent => ({ intent, count: comments.filter(c => c.intent === intent).length }))
+    .filter(row => row.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+const weekStartOf = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// The last `weeks` calendar weeks, oldest first, including empty ones
+export const weeklyTrends = (comments: Comment[], weeks = 8, now = new Date()): WeekStats[] => {
+  const current = weekStartOf(now);
+  const buckets = Array.from({ length: weeks }, (_, i): WeekStats => {
+    const start = new Date(current);
+    start.setDate(start.getDate() - (weeks - 1 - i) * 7);
+    return { weekStart: isoDate(start), comments: 0, leads: 0, replied: 0 };
+  });
+  const byWeek = new Map(buckets.map(b => [b.weekStart, b]));
+
+  comments.forEach(c => {
+    const bucket = byWeek.get(isoDate(weekStartOf(new Date(c.publishedAt))));
+    if (!bucket) return;
+    bucket.comments += 1;
+    if (c.isLead) bucket.leads += 1;
+    if (c.replied) bucket.replied += 1;
+  });
+  return buckets;
+};
+
+export const formatDuration = (minutes: number) => {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 60 * 24) return `${(minutes / 60).toFixed(1)}h`;
+  return `${(minutes / 60 / 24).toFixed(1)}d`;
+};
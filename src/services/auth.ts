@@ -0,0 +1,177 @@
+import { PROXY_URL, proxyHeaders } from './proxy';
+
+// --- GOOGLE OAUTH (PKCE) ---
+// Authorization-code flow with PKCE for the channel owner. Endpoints come from
+// env so the flow can run against `mock/oauth-server.mjs` instead of Google.
+//
+// Google's token endpoint wants the client secret for Web application
+// clients, which can't ship in the bundle. With the LeadStream server
+// configured, codes are exchanged through its `/oauth/token`, which adds
+// GOOGLE_CLIENT_SECRET; talking to Google directly only works with the mock.
+
+const AUTH_URL = import.meta.env.VITE_OAUTH_AUTH_URL || 'https://accounts.google.com/o/oauth2/v2/auth';
+const TOKEN_URL = import.meta.env.VITE_OAUTH_TOKEN_URL || (PROXY_URL ? `${PROXY_URL}/oauth/token` : 'https://oauth2.googleapis.com/token');
+const REVOKE_URL = import.meta.env.VITE_OAUTH_REVOKE_URL || 'https://oauth2.googleapis.com/revoke';
+const CLIENT_ID = import.meta.env.VITE_GOOGLE_CLIENT_ID || '';
+const SCOPE = 'https://www.googleapis.com/auth/youtube.force-ssl';
+
+const SESSION_KEY = 'leadstream_oauth';
+const PENDING_KEY = 'leadstream_oauth_pending';
+// Refresh a little before the token actually expires
+const EXPIRY_MARGIN_MS = 60_000;
+
+export interface OAuthSession {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+// The token endpoint answered with an OAuth error, as opposed to not answering
+class TokenError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const redirectUri = () => `${window.location.origin}${window.location.pathname}`;
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomString = (length = 48) => base64Url(crypto.getRandomValues(new Uint8Array(length)));
+
+const challengeFor = async (verifier: string) =>
+  base64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))));
+
+const loadSession = (): OAuthSession | null => {
+  const raw = localStorage.getItem(SESSION_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as OAuthSession;
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (session: OAuthSession | null) => {
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+};
+
+const requestToken = async (params: Record<string, string>, previous?: OAuthSession): Promise<OAuthSession> => {
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { ...(TOKEN_URL.startsWith(`${PROXY_URL}/`) ? proxyHeaders() : {}), 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ client_id: CLIENT_ID, ...params })
+  });
+  const data: TokenResponse = await response.json();
+
+  if (data.error || !data.access_token) {
+    throw new TokenError(data.error ?? '', data.error_description || data.error || 'Token request failed.');
+  }
+
+  return {
+    accessToken: data.access_token,
+    // Google only returns a refresh token on the first exchange
+    refreshToken: data.refresh_token ?? previous?.refreshToken,
+    expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000
+  };
+};
+
+export const isOAuthConfigured = () => Boolean(CLIENT_ID);
+
+export const hasSession = () => loadSession() !== null;
+
+// Redirects the browser to the consent screen.
+export const startSignIn = async () => {
+  const verifier = randomString();
+  const state = randomString(16);
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify({ verifier, state }));
+
+  const params = new URLSearchParams({
+    client_id: CLIENT_ID,
+    redirect_uri: redirectUri(),
+    response_type: 'code',
+    scope: SCOPE,
+    state,
+    code_challenge: await challengeFor(verifier),
+    code_challenge_method: 'S256',
+    access_type: 'offline',
+    prompt: 'consent'
+  });
+  window.location.assign(`${AUTH_URL}?${params}`);
+};
+
+// Finishes the flow when the page is loaded with `?code=...&state=...`.
+// Returns true if a new session was created.
+export const completeSignIn = async (): Promise<boolean> => {
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get('code');
+  const state = url.searchParams.get('state');
+  const error = url.searchParams.get('error');
+  if (!code && !error) return false;
+
+  const pending = sessionStorage.getItem(PENDING_KEY);
+  sessionStorage.removeItem(PENDING_KEY);
+  window.history.replaceState(null, '', redirectUri());
+
+  if (error) throw new Error(`Sign-in was cancelled (${error}).`);
+  const { verifier, state: expectedState } = pending ? JSON.parse(pending) : { verifier: '', state: '' };
+  if (!code || !verifier || state !== expectedState) throw new Error('Sign-in response did not match the request.');
+
+  saveSession(await requestToken({
+    grant_type: 'authorization_code',
+    code,
+    code_verifier: verifier,
+    redirect_uri: redirectUri()
+  }));
+  return true;
+};
+
+// Returns a valid access token, refreshing it when needed, or null when the
+// user is signed out or the refresh token was revoked. Any other failed
+// refresh (no signal, server error) is thrown and the session kept, so the
+// next attempt can still refresh.
+export const getAccessToken = async (): Promise<string | null> => {
+  const session = loadSession();
+  if (!session) return null;
+  if (session.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return session.accessToken;
+  if (!session.refreshToken) {
+    saveSession(null);
+    return null;
+  }
+
+  try {
+    const refreshed = await requestToken({ grant_type: 'refresh_token', refresh_token: session.refreshToken }, session);
+    saveSession(refreshed);
+    return refreshed.accessToken;
+  } catch (error) {
+    if (!(error instanceof TokenError && error.code === 'invalid_grant')) throw error;
+    console.error('Refresh token was rejected, signing out.', error);
+    saveSession(null);
+    return null;
+  }
+};
+
+export const signOut = async () => {
+  const session = loadSession();
+  saveSession(null);
+  if (!session) return;
+  const token = session.refreshToken ?? session.accessToken;
+  await fetch(REVOKE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ token })
+  }).catch(error => console.error('Token revoke failed.', error));
+};
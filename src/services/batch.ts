@@ -0,0 +1,34 @@
+import type { Comment, IgnoredAuthor } from '../types';
+
+// --- BATCH ACTIONS ---
+
+// State before the last batch action, so it can be undone in one step
+export interface BatchSnapshot {
+  label: string;
+  comments: Comment[];
+  ignoredAuthors: IgnoredAuthor[];
+}
+
+// Channel URLs are stable; display names are the fallback for platforms
+// that don't expose one
+export const authorKey = (comment: Pick<Comment, 'platform' | 'authorChannelUrl' | 'authorDisplayName'>) =>
+  `${comment.platform}:${comment.authorChannelUrl ?? comment.authorDisplayName}`;
+
+export const ignoreAuthors = (current: IgnoredAuthor[], comments: Comment[]): IgnoredAuthor[] => {
+  const next = new Map(current.map(a => [a.key, a]));
+  comments.forEach(c => next.set(authorKey(c), { key: authorKey(c), name: c.authorDisplayName, platform: c.platform }));
+  return [...next.values()];
+};
+
+export const isIgnored = (ignored: IgnoredAuthor[], comment: Comment) =>
+  ignored.some(a => a.key === authorKey(comment));
+
+export const loadIgnoredAuthors = (): IgnoredAuthor[] => {
+  const stored = localStorage.getItem('leadstream_ignored_authors');
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored) as IgnoredAuthor[];
+  } catch {
+    return [];
+  }
+};
@@ -0,0 +1,123 @@
+import type { Comment } from '../types';
+import { LEAD_SCORE_THRESHOLD } from './analysis';
+
+// --- LOCAL COMMENT STORE ---
+// Comments (with their analysis, draft and done status) are persisted in
+// IndexedDB so triage survives a reload. The app only talks to the
+// `CommentRepository` interface; the in-memory version backs environments
+// without IndexedDB.
+
+export interface CommentRepository {
+  getAll: () => Promise<Comment[]>;
+  put: (comment: Comment) => Promise<void>;
+  // Replaces the whole inbox in a single transaction.
+  saveAll: (comments: Comment[]) => Promise<void>;
+  getMeta: (key: string) => Promise<string | null>;
+  setMeta: (key: string, value: string | null) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const DB_NAME = 'leadstream';
+const DB_VERSION = 1;
+const COMMENTS = 'comments';
+const META = 'meta';
+
+// Records written before lead scoring and multi-source sync lack these fields
+const withDefaults = (comment: Comment): Comment => ({
+  ...comment,
+  platform: comment.platform ?? 'youtube',
+  sourceId: comment.sourceId ?? '',
+  leadScore: comment.leadScore ?? (comment.isLead ? LEAD_SCORE_THRESHOLD : 0),
+  intent: comment.intent ?? 'other',
+  entities: comment.entities ?? {},
+  moderation: comment.moderation ?? 'clean'
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(COMMENTS)) db.createObjectStore(COMMENTS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbRepository = (): CommentRepository => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const db = () => (dbPromise ??= openDatabase());
+
+  const write = async (stores: string[], run: (tx: IDBTransaction) => void) => {
+    const tx = (await db()).transaction(stores, 'readwrite');
+    run(tx);
+    await transactionDone(tx);
+  };
+
+  return {
+    getAll: async () => {
+      const tx = (await db()).transaction(COMMENTS, 'readonly');
+      const comments = await requestToPromise(tx.objectStore(COMMENTS).getAll() as IDBRequest<Comment[]>);
+      return comments.map(withDefaults);
+    },
+    put: (comment) => write([COMMENTS], tx => { tx.objectStore(COMMENTS).put(comment); }),
+    saveAll: (comments) => write([COMMENTS], tx => {
+      const store = tx.objectStore(COMMENTS);
+      store.clear();
+      comments.forEach(c => store.put(c));
+    }),
+    getMeta: async (key) => {
+      const tx = (await db()).transaction(META, 'readonly');
+      const value = await requestToPromise(tx.objectStore(META).get(key) as IDBRequest<string | undefined>);
+      return value ?? null;
+    },
+    setMeta: (key, value) => write([META], tx => {
+      if (value === null) tx.objectStore(META).delete(key);
+      else tx.objectStore(META).put(value, key);
+    }),
+    clear: () => write([COMMENTS, META], tx => {
+      tx.objectStore(COMMENTS).clear();
+      tx.objectStore(META).clear();
+    })
+  };
+};
+
+export const createMemoryRepository = (): CommentRepository => {
+  const comments = new Map<string, Comment>();
+  const meta = new Map<string, string>();
+
+  return {
+    getAll: async () => [...comments.values()],
+    put: async (comment) => { comments.set(comment.id, comment); },
+    saveAll: async (list) => {
+      comments.clear();
+      list.forEach(c => comments.set(c.id, c));
+    },
+    getMeta: async (key) => meta.get(key) ?? null,
+    setMeta: async (key, value) => {
+      if (value === null) meta.delete(key);
+      else meta.set(key, value);
+    },
+    clear: async () => {
+      comments.clear();
+      meta.clear();
+    }
+  };
+};
+
+export const commentRepository: CommentRepository =
+  typeof indexedDB === 'undefined' ? createMemoryRepository() : createIndexedDbRepository();
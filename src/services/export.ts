@@ -0,0 +1,100 @@
+import type { Comment } from '../types';
+import { INTENT_LABELS, PLATFORM_LABELS } from '../types';
+import { leadTier } from './analysis';
+import { STAGE_LABELS } from './pipeline';
+
+// --- EXPORT ---
+
+export interface LeadRow {
+  id: string;
+  platform: string;
+  author: string;
+  authorChannel: string;
+  comment: string;
+  video: string;
+  videoUrl: string;
+  publishedAt: string;
+  score: number;
+  tier: string;
+  intent: string;
+  budget: string;
+  timeline: string;
+  location: string;
+  email: string;
+  phone: string;
+  analysis: string;
+  status: string;
+  stage: string;
+  owner: string;
+  followUpDate: string;
+  notes: string;
+}
+
+export const toLeadRow = (c: Comment): LeadRow => ({
+  id: c.id,
+  platform: PLATFORM_LABELS[c.platform],
+  author: c.authorDisplayName,
+  authorChannel: c.authorChannelUrl ?? '',
+  comment: c.textDisplay,
+  video: c.videoTitle,
+  videoUrl: c.videoId ? `https://www.youtube.com/watch?v=${c.videoId}` : c.permalink ?? '',
+  publishedAt: c.publishedAt,
+  score: c.leadScore,
+  tier: leadTier(c.leadScore),
+  intent: INTENT_LABELS[c.intent],
+  budget: c.entities.budget ?? '',
+  timeline: c.entities.timeline ?? '',
+  location: c.entities.location ?? '',
+  email: c.entities.email ?? '',
+  phone: c.entities.phone ?? '',
+  analysis: c.analysis,
+  status: c.replied ? 'done' : 'open',
+  stage: c.lead ? STAGE_LABELS[c.lead.stage] : '',
+  owner: c.lead?.owner ?? '',
+  followUpDate: c.lead?.followUpDate ?? '',
+  notes: c.lead?.notes ?? ''
+});
+
+const CSV_COLUMNS: (keyof LeadRow)[] = [
+  'id', 'platform', 'author', 'authorChannel', 'comment', 'video', 'videoUrl', 'publishedAt',
+  'score', 'tier', 'intent', 'budget', 'timeline', 'location', 'email', 'phone',
+  'analysis', 'status', 'stage', 'owner', 'followUpDate', 'notes'
+];
+
+// Text from commenters that starts like a formula would run as one in Excel
+// or Sheets; a leading ' makes the spreadsheet show it as plain text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (comments: Comment[]) => {
+  const rows = comments.map(toLeadRow);
+  return [CSV_COLUMNS, ...rows.map(row => CSV_COLUMNS.map(column => row[column]))]
+    .map(line => line.map(csvCell).join(','))
+    .join('\r\n');
+};
+
+// Full records, including the lead history, for re-import or CRM scripts.
+export const toJson = (comments: Comment[]) =>
+  JSON.stringify(comments.map(c => ({ ...toLeadRow(c), lead: c.lead ?? null })), null, 2);
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportComments = (comments: Comment[], format: 'csv' | 'json') => {
+  const stamp = new Date().toISOString().slice(0, 10);
+  if (format === 'csv') {
+    downloadFile(`leadstream-${stamp}.csv`, toCsv(comments), 'text/csv;charset=utf-8');
+  } else {
+    downloadFile(`leadstream-${stamp}.json`, toJson(comments), 'application/json');
+  }
+};
@@ -0,0 +1,88 @@
+// --- FACEBOOK GRAPH API ---
+// Page post comments, read and answered with a Page access token.
+
+const GRAPH_API = `${import.meta.env.VITE_FACEBOOK_BASE_URL || 'https://graph.facebook.com'}/v19.0`;
+const POSTS_PER_PAGE = 25;
+
+export interface GraphComment {
+  id: string;
+  message?: string;
+  created_time: string;
+  permalink_url?: string;
+  from?: { id: string; name: string; picture?: { data?: { url?: string } } };
+  // Replies, only present on top-level comments
+  comments?: { data: GraphComment[] };
+}
+
+export interface GraphPost {
+  id: string;
+  message?: string;
+  full_picture?: string;
+  permalink_url?: string;
+  comments?: { data: GraphComment[] };
+}
+
+interface GraphList<T> {
+  data?: T[];
+  paging?: { next?: string };
+  error?: { message: string };
+}
+
+export interface FetchPageCommentsOptions {
+  pageId: string;
+  accessToken: string;
+  maxPages: number;
+  since?: string | null;
+}
+
+// Recent posts with their newest comments. A comment is dropped only when
+// neither it nor any reply is newer than `since`, so known threads still
+// bring their new replies; posts are paged until `maxPages` is reached.
+export const fetchPageComments = async ({
+  pageId,
+  accessToken,
+  maxPages,
+  since
+}: FetchPageCommentsOptions): Promise<{ post: GraphPost; comment: GraphComment }[]> => {
+  const sinceTime = since ? new Date(since).getTime() : 0;
+  const results: { post: GraphPost; comment: GraphComment }[] = [];
+  const params = new URLSearchParams({
+    fields: 'id,message,full_picture,permalink_url,comments.order(reverse_chronological).limit(100){id,message,created_time,permalink_url,from{id,name,picture},comments.order(reverse_chronological).limit(50){id,message,created_time,from{id,name,picture}}}',
+    limit: String(POSTS_PER_PAGE),
+    access_token: accessToken
+  });
+  let url: string | undefined = `${GRAPH_API}/${pageId}/posts?${params}`;
+
+  for (let page = 0; page < maxPages && url; page++) {
+    const response = await fetch(url);
+    const data: GraphList<GraphPost> = await response.json();
+
+    if (data.error) throw new Error(data.error.message);
+
+    for (const post of data.data ?? []) {
+      for (const comment of post.comments?.data ?? []) {
+        // Comments by the Page itself are our own replies
+        if (!comment.message || comment.from?.id === pageId) continue;
+        const latest = Math.max(...[comment, ...(comment.comments?.data ?? [])].map(c => new Date(c.created_time).getTime()));
+        if (latest <= sinceTime) continue;
+        results.push({ post, comment });
+      }
+    }
+    url = data.paging?.next;
+  }
+
+  return results;
+};
+
+export const postPageReply = async (accessToken: string, commentId: string, message: string) => {
+  const response = await fetch(`${GRAPH_API}/${commentId}/comments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ message, access_token: accessToken })
+  });
+  const data: { id?: string; error?: { message: string } } = await response.json();
+
+  if (data.error) throw new Error(data.error.message);
+  if (!data.id) throw new Error('Facebook did not return the posted reply.');
+  return { id: data.id, publishedAt: new Date().toISOString() };
+};
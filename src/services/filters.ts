@@ -0,0 +1,108 @@
+import type { Comment, CommentFilters, DateRange, SavedView, SortOrder } from '../types';
+import { leadRecordFor } from './pipeline';
+import { isFlagged } from './moderation';
+
+// --- SEARCH & FILTERS ---
+
+export const EMPTY_FILTERS: CommentFilters = {
+  query: '',
+  context: '',
+  range: 'any',
+  minScore: 0,
+  intent: 'any',
+  status: 'any'
+};
+
+export const DATE_RANGE_LABELS: Record<DateRange, string> = {
+  any: 'Any time',
+  today: 'Last 24 hours',
+  week: 'Last 7 days',
+  month: 'Last 30 days',
+  custom: 'Custom range'
+};
+
+export const DEFAULT_VIEWS: SavedView[] = [
+  {
+    id: 'investors-this-week',
+    name: 'Investor leads this week',
+    filters: { ...EMPTY_FILTERS, range: 'week', intent: 'investor', status: 'leads' },
+    sortBy: 'score'
+  }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_DAYS: Partial<Record<DateRange, number>> = { today: 1, week: 7, month: 30 };
+
+// Videos and posts are told apart by id when there is one
+export const contextKey = (comment: Comment) => comment.videoId ?? comment.videoTitle;
+
+export const contextOptions = (comments: Comment[]) => {
+  const options = new Map<string, string>();
+  comments.forEach(c => options.set(contextKey(c), c.videoTitle));
+  return [...options].map(([key, title]) => ({ key, title })).sort((a, b) => a.title.localeCompare(b.title));
+};
+
+const inDateRange = (publishedAt: string, filters: CommentFilters, now: number) => {
+  const time = new Date(publishedAt).getTime();
+  const days = RANGE_DAYS[filters.range];
+  if (days) return time >= now - days * DAY_MS;
+  if (filters.range !== 'custom') return true;
+  // `to` is inclusive, so compare against the start of the following day
+  if (filters.from && time < new Date(`${filters.from}T00:00:00`).getTime()) return false;
+  if (filters.to && time >= new Date(`${filters.to}T00:00:00`).getTime() + DAY_MS) return false;
+  return true;
+};
+
+const matchesQuery = (comment: Comment, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return true;
+  const haystack = [
+    comment.authorDisplayName,
+    comment.textDisplay,
+    comment.translation ?? '',
+    ...(comment.thread ?? []).map(m => m.textDisplay)
+  ].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+const matchesStatus = (comment: Comment, status: CommentFilters['status']) => {
+  if (status === 'any') return true;
+  if (status === 'leads') return comment.isLead;
+  if (status === 'flagged') return isFlagged(comment);
+  return (comment.lead || comment.isLead) && leadRecordFor(comment).stage === status;
+};
+
+export const applyFilters = (comments: Comment[], filters: CommentFilters, now = Date.now()) =>
+  comments.filter(c =>
+    matchesQuery(c, filters.query) &&
+    (!filters.context || contextKey(c) === filters.context) &&
+    inDateRange(c.publishedAt, filters, now) &&
+    c.leadScore >= filters.minScore &&
+    (filters.intent === 'any' || c.intent === filters.intent) &&
+    matchesStatus(c, filters.status)
+  );
+
+export const sortComments = (comments: Comment[], sortBy: SortOrder) =>
+  [...comments].sort((a, b) => sortBy === 'score'
+    ? b.leadScore - a.leadScore
+    : new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+
+// Number of filters set beyond search and the All/Leads pills
+export const activeFilterCount = (filters: CommentFilters) =>
+  [filters.context, filters.range !== 'any', filters.minScore > 0, filters.intent !== 'any', !['any', 'leads', 'flagged'].includes(filters.status)]
+    .filter(Boolean).length;
+
+const FILTER_KEYS: (keyof CommentFilters)[] = ['query', 'context', 'range', 'from', 'to', 'minScore', 'intent', 'status'];
+
+export const isViewActive = (view: SavedView, filters: CommentFilters, sortBy: SortOrder) =>
+  view.sortBy === sortBy && FILTER_KEYS.every(key => String(view.filters[key] ?? '') === String(filters[key] ?? ''));
+
+export const loadViews = (): SavedView[] => {
+  const stored = localStorage.getItem('leadstream_views');
+  if (!stored) return DEFAULT_VIEWS;
+  try {
+    return JSON.parse(stored) as SavedView[];
+  } catch {
+    return DEFAULT_VIEWS;
+  }
+};
@@ -0,0 +1,56 @@
+import { proxyHeaders } from './proxy';
+
+// --- GEMINI CLIENT ---
+// Thin wrapper around the Gemini `generateContent` REST endpoint. The base URL
+// is configurable so the classifier can run against `mock/gemini-server.mjs`
+// or the LeadStream proxy, which adds the key itself.
+
+export const DEFAULT_GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com';
+// VITE_GEMINI_MODEL overrides it; behind the proxy it must match GEMINI_MODEL
+export const DEFAULT_GEMINI_MODEL = import.meta.env.VITE_GEMINI_MODEL || 'gemini-2.5-flash';
+
+export interface GeminiClientOptions {
+  // Optional behind the proxy
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+export interface GeminiClient {
+  // Returns the raw text of the first candidate. When a schema is given the
+  // model is asked for JSON matching it, but the caller still has to validate.
+  generate: (prompt: string, responseSchema?: Record<string, unknown>) => Promise<string>;
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  error?: { message: string };
+}
+
+export const createGeminiClient = ({
+  apiKey,
+  baseUrl = import.meta.env.VITE_API_PROXY_URL || import.meta.env.VITE_GEMINI_BASE_URL || DEFAULT_GEMINI_BASE_URL,
+  model = DEFAULT_GEMINI_MODEL
+}: GeminiClientOptions): GeminiClient => ({
+  generate: async (prompt, responseSchema) => {
+    const endpoint = `${baseUrl.replace(/\/$/, '')}/v1beta/models/${model}:generateContent${apiKey ? `?key=${encodeURIComponent(apiKey)}` : ''}`;
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { ...proxyHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: responseSchema
+          ? { responseMimeType: 'application/json', responseSchema, temperature: 0.2 }
+          : { temperature: 0.2 }
+      })
+    });
+    const data: GeminiResponse = await response.json();
+
+    if (data.error) throw new Error(data.error.message);
+
+    const text = data.candidates?.[0]?.content?.parts?.map(p => p.text ?? '').join('');
+    if (!text) throw new Error('Gemini returned an empty response.');
+    return text;
+  }
+});
@@ -0,0 +1,107 @@
+import type { AgentProfile, Comment, KnowledgeBase } from '../types';
+
+// --- KNOWLEDGE BASE ---
+// Facts about the agent that AI replies are grounded in, and the check that
+// runs on every draft: figures must come from the comment or the knowledge
+// base, and banned phrases must not appear at all.
+
+// Common fair-housing red flags; agents can edit the list in Settings
+export const DEFAULT_BANNED_PHRASES = [
+  'family-friendly',
+  'perfect for families',
+  'adults only',
+  'no kids',
+  'ideal for singles',
+  'bachelor pad',
+  'exclusive neighborhood',
+  'safe neighborhood',
+  'good neighborhood',
+  'no section 8'
+];
+
+export const EMPTY_KNOWLEDGE: KnowledgeBase = {
+  brokerage: '',
+  bio: '',
+  serviceAreas: [],
+  links: [],
+  faqs: [],
+  bannedPhrases: DEFAULT_BANNED_PHRASES
+};
+
+export interface ReplyIssue {
+  kind: 'unsupported_number' | 'banned_phrase';
+  // The figure or phrase as it appears in the reply
+  text: string;
+}
+
+const lines = (list: string[]) => list.map(item => item.trim()).filter(Boolean);
+
+// Prompt section telling the model what it may say about the agent
+export const buildGrounding = (profile: AgentProfile, knowledge: KnowledgeBase) => {
+  const facts = [
+    profile.name && `Name: ${profile.name}`,
+    knowledge.brokerage && `Brokerage: ${knowledge.brokerage}`,
+    knowledge.bio.trim() && `Bio: ${knowledge.bio.trim()}`,
+    lines(knowledge.serviceAreas).length > 0 && `Service areas: ${lines(knowledge.serviceAreas).join(', ')}`,
+    ...knowledge.links.filter(l => l.url.trim()).map(l => `${l.label || 'Link'}: ${l.url.trim()}`)
+  ].filter(Boolean);
+  const faqs = knowledge.faqs
+    .filter(f => f.question.trim() && f.answer.trim())
+    .map(f => `Q: ${f.question.trim()}\nA: ${f.answer.trim()}`);
+  const banned = lines(knowledge.bannedPhrases);
+
+  return [
+    facts.length ? `About the agent. Use only these facts and leave out anything not listed:\n${facts.join('\n')}` : '',
+    faqs.length ? `Approved answers to common questions. Reuse them when they fit:\n${faqs.join('\n')}` : '',
+    `Rules for the reply:
+- Never state prices, rates, percentages, market statistics or any other figures unless they appear above or in the comment. Offer to send real numbers instead.${lines(knowledge.serviceAreas).length ? '\n- If the comment is about a place outside the service areas, say so and offer a referral.' : ''}${banned.length ? `\n- Never use these phrases: ${banned.map(p => `"${p}"`).join(', ')}.` : ''}`
+  ].filter(Boolean).join('\n\n');
+};
+
+// "$500k", "5-6%", "2,500 sq ft" -> one claim each
+const CLAIM_PATTERN = /[$€£]?\d[\d,]*(?:\.\d+)?(?:\s?(?:-|–|to)\s?[$€£]?\d[\d,]*(?:\.\d+)?)?\s?(?:%|percent\b|k\b|m\b|million\b|thousand\b)?/gi;
+
+const numbersIn = (text = '') => (text.match(/\d[\d,]*(?:\.\d+)?/g) ?? []).map(n => n.replace(/,/g, ''));
+
+// Links and emails are full of digits that aren't claims
+const stripAddresses = (text: string) => text.replace(/https?:\/\/\S+/g, ' ').replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, ' ');
+
+// Flags figures the reply can't back up and banned phrases it uses.
+// Figures count as supported when every number in them appears in the
+// comment, its thread, the agent's profile or the knowledge base.
+export const checkReply = (reply: string, comment: Comment, profile: AgentProfile, knowledge: KnowledgeBase): ReplyIssue[] => {
+  const sources = [
+    comment.textDisplay,
+    comment.translation ?? '',
+    comment.videoTitle,
+    ...(comment.thread ?? []).map(m => m.textDisplay),
+    ...Object.values(comment.entities),
+    ...Object.values(profile),
+    knowledge.brokerage,
+    knowledge.bio,
+    ...knowledge.serviceAreas,
+    ...knowledge.links.flatMap(l => [l.label, l.url]),
+    ...knowledge.faqs.flatMap(f => [f.question, f.answer])
+  ];
+  const supported = new Set(sources.flatMap(numbersIn));
+
+  const issues: ReplyIssue[] = (stripAddresses(reply).match(CLAIM_PATTERN) ?? [])
+    .filter(claim => numbersIn(claim).some(n => !supported.has(n)))
+    .map(claim => ({ kind: 'unsupported_number', text: claim.trim() }));
+
+  const lower = reply.toLowerCase().replace(/\s+/g, ' ');
+  for (const phrase of lines(knowledge.bannedPhrases)) {
+    if (lower.includes(phrase.toLowerCase())) issues.push({ kind: 'banned_phrase', text: phrase });
+  }
+  return issues;
+};
+
+export const loadKnowledge = (): KnowledgeBase => {
+  const stored = localStorage.getItem('leadstream_knowledge');
+  if (!stored) return EMPTY_KNOWLEDGE;
+  try {
+    return { ...EMPTY_KNOWLEDGE, ...JSON.parse(stored) };
+  } catch {
+    return EMPTY_KNOWLEDGE;
+  }
+};
@@ -0,0 +1,54 @@
+// --- LANGUAGE DETECTION ---
+// Offline guess at a comment's language, used when Gemini is unavailable.
+// Scripts like Chinese or Cyrillic give the language away; Latin-script
+// languages are told apart by counting common words. Codes are ISO 639-1.
+
+export const DEFAULT_LANGUAGE = 'en';
+
+const SCRIPTS: [string, RegExp][] = [
+  // Kana before Han: Japanese text mixes both
+  ['ja', /[\u3040-\u30ff]/g],
+  ['ko', /[\uac00-\ud7af]/g],
+  ['zh', /[\u4e00-\u9fff]/g],
+  ['ru', /[\u0400-\u04ff]/g],
+  ['ar', /[\u0600-\u06ff]/g],
+  ['he', /[\u0590-\u05ff]/g],
+  ['hi', /[\u0900-\u097f]/g],
+  ['th', /[\u0e00-\u0e7f]/g]
+];
+
+const COMMON_WORDS: [string, string[]][] = [
+  ['en', ['the', 'is', 'are', 'and', 'to', 'of', 'you', 'my', 'we', 'what', 'this', 'for', 'looking', 'home', 'house', 'buy', 'thanks', 'great']],
+  ['es', ['el', 'los', 'las', 'una', 'que', 'para', 'estoy', 'quiero', 'busco', 'buscando', 'comprar', 'vender', 'casa', 'gracias', 'muy', 'por', 'con', 'mi', 'es', 'del', 'tengo', 'cuánto', 'dónde', 'próximo']],
+  ['pt', ['não', 'você', 'obrigado', 'obrigada', 'uma', 'para', 'estou', 'quero', 'comprar', 'vender', 'casa', 'com', 'meu', 'minha', 'também', 'muito']],
+  ['fr', ['le', 'les', 'une', 'est', 'pour', 'avec', 'je', 'vous', 'nous', 'acheter', 'vendre', 'maison', 'merci', 'très', 'bonjour', 'mon']],
+  ['de', ['der', 'die', 'das', 'und', 'ist', 'ich', 'wir', 'nicht', 'kaufen', 'verkaufen', 'haus', 'danke', 'mit', 'für']]
+];
+
+// Marks only Spanish uses, worth a couple of words each
+const SPANISH_MARKS = /[ñ¿¡]/g;
+
+export const detectLanguage = (text: string): string => {
+  for (const [code, pattern] of SCRIPTS) {
+    if ((text.match(pattern) ?? []).length >= 2) return code;
+  }
+
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  const scores = COMMON_WORDS.map(([code, common]): [string, number] => [
+    code,
+    words.filter(word => common.includes(word)).length + (code === 'es' ? 2 * (text.match(SPANISH_MARKS) ?? []).length : 0)
+  ]);
+  const [best, score] = scores.reduce((top, entry) => (entry[1] > top[1] ? entry : top));
+  return score >= 2 ? best : DEFAULT_LANGUAGE;
+};
+
+export const isEnglish = (language?: string) => !language || language === DEFAULT_LANGUAGE;
+
+// "es" -> "Spanish"; falls back to the code when the browser doesn't know it
+export const languageName = (language = DEFAULT_LANGUAGE) => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language.toUpperCase();
+  } catch {
+    return language.toUpperCase();
+  }
+};
@@ -0,0 +1,49 @@
+import type { Comment, ModerationFlag } from '../types';
+
+// --- MODERATION ---
+// Keyword pass for the obvious cases; it backs up the model and covers the
+// app when no Gemini key is set. Duplicate text needs the whole inbox, so it
+// is checked separately after each sync.
+
+const SCAM_CONTACT = /\b(whats\s?app|telegram|signal app|text (?:him|her|me) on)\b/i;
+const SCAM_MONEY = /\b(crypto|bitcoin|btc|usdt|forex|binary options?|trading|profits?|account manager|investment (?:manager|expert|coach))\b/i;
+const SCAM_TESTIMONIAL = /\b(thanks to|recommend|contact) (?:mr|mrs|ms|dr)\.? [a-z]+/i;
+const SPAM = /(https?:\/\/|www\.|\bsub ?4 ?sub\b|\bcheck (?:out )?my (?:channel|page|profile)\b|\bsubscribe to (?:me|my)\b|\bfree (?:gift|iphone|followers)\b|\bpromo code\b)/i;
+const TOXIC = /\b(idiot|stupid|moron|scumbag|loser|shut up|kill yourself|kys|trash agent|clown)\b/i;
+
+// Texts shorter than this are too generic ("First!!", "Nice video") to call
+// a repeat suspicious
+const MIN_DUPLICATE_LENGTH = 20;
+
+// Flagged comments keep at most this score, so they stay cold in badges,
+// sorting and score filters
+export const FLAGGED_MAX_SCORE = 10;
+
+export const detectModeration = (text: string): ModerationFlag => {
+  if (SCAM_CONTACT.test(text) && (SCAM_MONEY.test(text) || SCAM_TESTIMONIAL.test(text))) return 'scam';
+  if (SCAM_TESTIMONIAL.test(text) && SCAM_MONEY.test(text)) return 'scam';
+  if (SPAM.test(text)) return 'spam';
+  if (TOXIC.test(text)) return 'toxic';
+  return 'clean';
+};
+
+export const isFlagged = (comment: Pick<Comment, 'moderation'>) => comment.moderation !== 'clean';
+
+const normalize = (text: string) => text.toLowerCase().replace(/<[^>]+>/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Flags the same text posted by more than one author as 'bot'. Comments
+// that were already flagged or reviewed by hand are left as they are.
+export const flagDuplicates = (comments: Comment[]): Comment[] => {
+  const authorsByText = new Map<string, Set<string>>();
+  comments.forEach(c => {
+    const text = normalize(c.textDisplay);
+    if (text.length < MIN_DUPLICATE_LENGTH) return;
+    authorsByText.set(text, (authorsByText.get(text) ?? new Set()).add(c.authorDisplayName));
+  });
+
+  return comments.map(c => {
+    if (c.moderation !== 'clean' || c.moderationReviewed) return c;
+    if ((authorsByText.get(normalize(c.textDisplay))?.size ?? 0) < 2) return c;
+    return { ...c, moderation: 'bot', isLead: false, leadScore: Math.min(c.leadScore, FLAGGED_MAX_SCORE), analysis: "Same text posted by several accounts." };
+  });
+};
@@ -0,0 +1,48 @@
+import type { Comment } from '../types';
+
+// --- HOT LEAD NOTIFICATIONS ---
+// Shown through the service worker (`public/sw.js`) so they still appear while
+// the tab is in the background; clicking one focuses the app on that comment.
+
+export const DEFAULT_NOTIFY_THRESHOLD = 70;
+
+export const notificationsSupported = () =>
+  'Notification' in window && 'serviceWorker' in navigator;
+
+export const registerServiceWorker = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.error("Service worker registration failed.", error);
+  }
+};
+
+export const requestNotificationPermission = async () => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+export const notifyHotLeads = async (comments: Comment[], threshold: number) => {
+  const hot = comments.filter(c => c.isLead && c.leadScore >= threshold);
+  if (!hot.length || !notificationsSupported() || Notification.permission !== 'granted') return;
+
+  const registration = await navigator.serviceWorker.ready;
+  await Promise.all(hot.map(c => registration.showNotification(`🔥 ${c.authorDisplayName} (${c.leadScore})`, {
+    body: c.textDisplay.slice(0, 140),
+    icon: c.thumbnail,
+    tag: c.id,
+    data: { commentId: c.id }
+  })));
+};
+
+// Calls back with the comment id when a notification is clicked
+export const onNotificationOpen = (handler: (commentId: string) => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'open-comment') handler(event.data.commentId);
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
@@ -0,0 +1,66 @@
+import type { WebhookPayload } from './webhook';
+
+// --- OFFLINE OUTBOX ---
+// Triage changes (done, drafts, lead edits) are saved to the local store right
+// away; what needs the network — posting a reply, delivering a webhook — is
+// queued here while offline and replayed in order once the device reconnects.
+
+export type OutboxItem =
+  | { id: string; kind: 'reply'; commentId: string; text: string; queuedAt: string }
+  | { id: string; kind: 'webhook'; url: string; payload: WebhookPayload; queuedAt: string };
+
+type NewOutboxItem =
+  | Omit<Extract<OutboxItem, { kind: 'reply' }>, 'id' | 'queuedAt'>
+  | Omit<Extract<OutboxItem, { kind: 'webhook' }>, 'id' | 'queuedAt'>;
+
+export interface ReplayResult {
+  sent: OutboxItem[];
+  failed: { item: OutboxItem; error: unknown }[];
+}
+
+const STORAGE_KEY = 'leadstream_outbox';
+
+export const isOffline = () => !navigator.onLine;
+
+// fetch() rejects with a TypeError when the request never reached the server,
+// but also when CORS blocked the response (most CRM webhooks send no CORS
+// headers). Only an offline device makes it worth queueing and retrying.
+export const isNetworkError = (error: unknown) => error instanceof TypeError && isOffline();
+
+export const loadOutbox = (): OutboxItem[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveOutbox = (items: OutboxItem[]) => {
+  if (items.length) localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  else localStorage.removeItem(STORAGE_KEY);
+};
+
+export const enqueue = (item: NewOutboxItem): OutboxItem[] => {
+  const queued = { ...item, id: crypto.randomUUID(), queuedAt: new Date().toISOString() } as OutboxItem;
+  const items = [...loadOutbox(), queued];
+  saveOutbox(items);
+  return items;
+};
+
+// Sends queued items oldest first. Going offline again stops the run and
+// keeps the rest for the next attempt; any other error drops that item and
+// is reported, since retrying a rejected request would fail the same way.
+export const replayOutbox = async (send: (item: OutboxItem) => Promise<void>): Promise<ReplayResult> => {
+  const result: ReplayResult = { sent: [], failed: [] };
+  for (const item of loadOutbox()) {
+    try {
+      await send(item);
+      result.sent.push(item);
+    } catch (error) {
+      if (isNetworkError(error)) break;
+      result.failed.push({ item, error });
+    }
+    saveOutbox(loadOutbox().filter(queued => queued.id !== item.id));
+  }
+  return result;
+};
@@ -0,0 +1,34 @@
+import type { Comment, LeadRecord, PipelineStage } from '../types';
+
+// --- LEAD PIPELINE ---
+
+export const PIPELINE_STAGES: PipelineStage[] = ['new', 'contacted', 'in_conversation', 'qualified', 'closed_won', 'closed_lost'];
+
+export const STAGE_LABELS: Record<PipelineStage, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  in_conversation: 'In Conversation',
+  qualified: 'Qualified',
+  closed_won: 'Closed Won',
+  closed_lost: 'Closed Lost'
+};
+
+export const createLeadRecord = (): LeadRecord => ({
+  stage: 'new',
+  notes: '',
+  history: [{ from: null, to: 'new', at: new Date().toISOString() }]
+});
+
+// Flagged leads are on the board even before anyone touches their record.
+export const isInPipeline = (comment: Comment) => Boolean(comment.lead) || comment.isLead;
+
+export const leadRecordFor = (comment: Comment): LeadRecord => comment.lead ?? createLeadRecord();
+
+export const changeStage = (record: LeadRecord, stage: PipelineStage): LeadRecord =>
+  record.stage === stage
+    ? record
+    : {
+        ...record,
+        stage,
+        history: [...record.history, { from: record.stage, to: stage, at: new Date().toISOString() }]
+      };
@@ -0,0 +1,36 @@
+// --- API PROXY ---
+// With VITE_API_PROXY_URL set, YouTube and Gemini calls go through the
+// LeadStream server (`server/`), which holds the keys, caches responses and
+// tracks the daily quota. Without it the app talks to Google directly.
+
+export const PROXY_URL = (import.meta.env.VITE_API_PROXY_URL ?? '').replace(/\/$/, '');
+
+export const isProxyEnabled = () => Boolean(PROXY_URL);
+
+const TOKEN_KEY = 'leadstream_server_token';
+
+// Each agent's own token from TEAM_TOKENS on the server
+export const loadServerToken = () => localStorage.getItem(TOKEN_KEY) ?? '';
+
+export const saveServerToken = (token: string) => {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+};
+
+// Sent with every request to the proxy; nothing without one
+export const proxyHeaders = (): Record<string, string> =>
+  PROXY_URL && loadServerToken() ? { 'X-LeadStream-Token': loadServerToken() } : {};
+
+export interface ProxyUsage {
+  day: string;
+  youtubeUnits: number;
+  youtubeLimit: number;
+  geminiRequests: number;
+  cacheEntries: number;
+}
+
+export const fetchProxyUsage = async (): Promise<ProxyUsage> => {
+  const response = await fetch(`${PROXY_URL}/api/quota`, { headers: proxyHeaders() });
+  if (!response.ok) throw new Error(`Proxy responded with ${response.status}.`);
+  return response.json();
+};
@@ -0,0 +1,60 @@
+// --- BACKGROUND SYNC ---
+// Re-runs a sync on a fixed interval while the app is open. Failures back off
+// exponentially; a quota error waits for the daily YouTube quota reset
+// (midnight Pacific) instead of burning the next day's units on retries.
+
+export const DEFAULT_SYNC_INTERVAL_MINUTES = 5;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export interface SyncScheduler {
+  stop: () => void;
+}
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof Error && /quota/i.test(error.message);
+
+// Milliseconds until the next midnight in America/Los_Angeles
+export const msUntilQuotaReset = (now = new Date()) => {
+  const pacific = new Date(now.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' }));
+  const midnight = new Date(pacific);
+  midnight.setHours(24, 0, 0, 0);
+  return midnight.getTime() - pacific.getTime();
+};
+
+export const nextDelay = (intervalMs: number, failures: number, error?: unknown) => {
+  if (isQuotaError(error)) return msUntilQuotaReset();
+  if (failures === 0) return intervalMs;
+  return Math.min(intervalMs * 2 ** failures, Math.max(intervalMs, MAX_BACKOFF_MS));
+};
+
+export const startSyncScheduler = (intervalMinutes: number, run: () => Promise<void>): SyncScheduler => {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  let failures = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const schedule = (delay: number) => {
+    if (!stopped) timer = setTimeout(tick, delay);
+  };
+
+  const tick = async () => {
+    try {
+      await run();
+      failures = 0;
+      schedule(intervalMs);
+    } catch (error) {
+      failures += 1;
+      const delay = nextDelay(intervalMs, failures, error);
+      console.warn(`Background sync failed, retrying in ${Math.round(delay / 60000)} min.`, error);
+      schedule(delay);
+    }
+  };
+
+  schedule(intervalMs);
+  return {
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+    }
+  };
+};
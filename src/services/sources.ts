@@ -0,0 +1,205 @@
+import type { Comment, ModerationStatus, Platform, SourceConfig, ThreadMessage } from '../types';
+import { fetchCommentThreads, fetchThreadReplies, fetchVideos, postReply, commentDeepLink, setModerationStatus } from './youtube';
+import type { VideoInfo, YouTubeComment } from './youtube';
+import { fetchPageComments, postPageReply } from './facebook';
+import { getAccessToken, hasSession } from './auth';
+import { isProxyEnabled } from './proxy';
+
+// --- COMMENT SOURCES ---
+// Each platform implements `CommentSource`; the app syncs every configured
+// `SourceConfig` through its adapter into one inbox.
+
+// What an adapter knows about a comment before analysis and triage
+export type SourceComment = Pick<Comment,
+  'id' | 'platform' | 'sourceId' | 'authorDisplayName' | 'authorChannelUrl' | 'textDisplay' |
+  'videoId' | 'videoTitle' | 'videoThumbnail' | 'permalink' | 'publishedAt' | 'thumbnail' | 'thread'
+>;
+
+export interface FetchOptions {
+  // Newest comment already synced for this source
+  since: string | null;
+  maxPages: number;
+  // Where the previous fetch stopped when it hit the page limit
+  cursor?: string;
+}
+
+export interface FetchResult {
+  comments: SourceComment[];
+  // Set when the page limit was reached before `since`: the rest is fetched
+  // next time from here, and the source isn't synced up to date yet
+  cursor?: string;
+}
+
+export interface CommentSource {
+  platform: Platform;
+  fetchComments: (source: SourceConfig, options: FetchOptions) => Promise<FetchResult>;
+  // Whether replies can be posted from the app right now
+  canPost: (source: SourceConfig) => boolean;
+  postReply: (source: SourceConfig, comment: Comment, text: string) => Promise<{ publishedAt: string }>;
+  // Where to reply by hand
+  deepLink: (comment: Comment, source?: SourceConfig) => string;
+  // Hold, reject or ban from the app; platforms without it are moderated by hand
+  canModerate: (source: SourceConfig) => boolean;
+  moderate?: (source: SourceConfig, comment: Comment, status: ModerationStatus, banAuthor: boolean) => Promise<void>;
+}
+
+const avatarFor = (name: string) => `https://api.dicebear.com/7.x/initials/svg?seed=${encodeURIComponent(name)}`;
+
+// Replies and moderation act as the signed-in account, so they only work on
+// its own channel; channels added by ID are read-only
+const ownsChannel = (source: SourceConfig) => {
+  const account = localStorage.getItem('leadstream_account');
+  if (!account || !hasSession()) return false;
+  return (JSON.parse(account) as { id?: string }).id === source.externalId;
+};
+
+const NOT_OWNER = "Replies and moderation only work on the channel you signed in with.";
+
+const youtubeSource: CommentSource = {
+  platform: 'youtube',
+  fetchComments: async (source, { since, maxPages, cursor }) => {
+    // The proxy can read public comments with the server's key
+    const accessToken = await getAccessToken() ?? '';
+    if (!accessToken && !isProxyEnabled()) throw new Error("Sign in with Google to sync YouTube channels.");
+
+    const { threads, nextPageToken } = await fetchCommentThreads({
+      accessToken,
+      channelId: source.externalId,
+      maxPages,
+      since,
+      pageToken: cursor
+    });
+
+    // Video metadata is nice-to-have; a failed lookup should not block the sync
+    let videos = new Map<string, VideoInfo>();
+    try {
+      videos = await fetchVideos(accessToken, threads.flatMap(item => item.snippet.videoId ?? []));
+    } catch (error) {
+      console.error("Failed to load video details.", error);
+    }
+
+    // Long threads need their own requests; keep the embedded replies if that fails
+    const replies = await Promise.all(threads.map(item =>
+      fetchThreadReplies(accessToken, item).catch(error => {
+        console.error(`Failed to load replies for ${item.id}.`, error);
+        return item.replies?.comments ?? [];
+      })
+    ));
+
+    const toMessage = (reply: YouTubeComment): ThreadMessage => ({
+      id: reply.id,
+      authorDisplayName: reply.snippet.authorDisplayName,
+      textDisplay: reply.snippet.textDisplay,
+      publishedAt: reply.snippet.publishedAt,
+      thumbnail: reply.snippet.authorProfileImageUrl,
+      fromOwner: reply.snippet.authorChannelId?.value === source.externalId
+    });
+
+    const comments = threads.map((item, i): SourceComment => {
+      const snippet = item.snippet.topLevelComment.snippet;
+      const video = item.snippet.videoId ? videos.get(item.snippet.videoId) : undefined;
+      return {
+        id: item.id,
+        platform: 'youtube',
+        sourceId: source.id,
+        authorDisplayName: snippet.authorDisplayName,
+        authorChannelUrl: snippet.authorChannelUrl,
+        textDisplay: snippet.textDisplay,
+        videoId: item.snippet.videoId,
+        videoTitle: video?.title ?? (item.snippet.videoId ? "Unknown Video" : "Channel Discussion"),
+        videoThumbnail: video?.thumbnail,
+        publishedAt: snippet.publishedAt,
+        thumbnail: snippet.authorProfileImageUrl,
+        thread: replies[i].map(toMessage)
+      };
+    });
+    return { comments, cursor: nextPageToken };
+  },
+  canPost: ownsChannel,
+  postReply: async (source, comment, text) => {
+    if (!ownsChannel(source)) throw new Error(NOT_OWNER);
+    const accessToken = await getAccessToken();
+    if (!accessToken) throw new Error("Your Google session expired. Sign in again.");
+    return postReply(accessToken, comment.id, text);
+  },
+  deepLink: (comment, source) => commentDeepLink(comment, source?.externalId),
+  canModerate: ownsChannel,
+  moderate: async (source, comment, status, banAuthor) => {
+    if (!ownsChannel(source)) throw new Error(NOT_OWNER);
+    const accessToken = await getAccessToken();
+    if (!accessToken) throw new Error("Your Google session expired. Sign in again.");
+    // A thread's id is the id of its top-level comment
+    await setModerationStatus(accessToken, comment.id, status, banAuthor);
+  }
+};
+
+const facebookSource: CommentSource = {
+  platform: 'facebook',
+  fetchComments: async (source, { since, maxPages }) => {
+    if (!source.accessToken) throw new Error(`No Page access token for ${source.name}.`);
+
+    // Posts aren't ordered by comment activity, so there is no point to
+    // resume from; every sync reads the newest `maxPages` pages of posts
+    const items = await fetchPageComments({ pageId: source.externalId, accessToken: source.accessToken, maxPages, since });
+    const comments = items.map(({ post, comment }): SourceComment => {
+      const author = comment.from?.name ?? 'Facebook user';
+      return {
+        id: comment.id,
+        platform: 'facebook',
+        sourceId: source.id,
+        authorDisplayName: author,
+        authorChannelUrl: comment.from ? `https://www.facebook.com/${comment.from.id}` : undefined,
+        textDisplay: comment.message ?? '',
+        videoTitle: post.message ? post.message.slice(0, 80) : `${source.name} post`,
+        videoThumbnail: post.full_picture,
+        permalink: comment.permalink_url ?? post.permalink_url,
+        publishedAt: comment.created_time,
+        thumbnail: comment.from?.picture?.data?.url ?? avatarFor(author),
+        thread: (comment.comments?.data ?? [])
+          .map(reply => ({
+            id: reply.id,
+            authorDisplayName: reply.from?.name ?? 'Facebook user',
+            textDisplay: reply.message ?? '',
+            publishedAt: reply.created_time,
+            thumbnail: reply.from?.picture?.data?.url ?? avatarFor(reply.from?.name ?? '?'),
+            fromOwner: reply.from?.id === source.externalId
+          }))
+          .sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime())
+      };
+    });
+    return { comments };
+  },
+  canPost: (source) => Boolean(source.accessToken),
+  postReply: (source, comment, text) => postPageReply(source.accessToken ?? '', comment.id, text),
+  deepLink: (comment, source) => comment.permalink ?? `https://www.facebook.com/${source?.externalId ?? ''}`,
+  canModerate: () => false
+};
+
+export const COMMENT_SOURCES: Record<Platform, CommentSource> = {
+  youtube: youtubeSource,
+  facebook: facebookSource
+};
+
+export const sourceIdFor = (platform: Platform, externalId: string) => `${platform}:${externalId}`;
+
+export const loadSources = (): SourceConfig[] => {
+  const stored = localStorage.getItem('leadstream_sources');
+  if (stored) {
+    try {
+      return JSON.parse(stored) as SourceConfig[];
+    } catch {
+      return [];
+    }
+  }
+
+  // Single-channel setups from before sources existed
+  const channel = localStorage.getItem('leadstream_channel');
+  if (!channel) return [];
+  const account = localStorage.getItem('leadstream_account');
+  const name = account ? (JSON.parse(account) as { title?: string }).title : undefined;
+  return [{ id: sourceIdFor('youtube', channel), platform: 'youtube', externalId: channel, name: name ?? channel }];
+};
+
+export const saveSources = (sources: SourceConfig[]) => {
+  localStorage.setItem('leadstream_sources', JSON.stringify(sources));
+};
@@ -0,0 +1,234 @@
+import { MODERATION_LABELS } from '../types';
+import type { ActivityEntry, Comment, ModerationStatus, PresenceEntry, PresenceState } from '../types';
+import { STAGE_LABELS } from './pipeline';
+import { PROXY_URL } from './proxy';
+
+// --- TEAM WORKSPACE ---
+// Agents who join the same workspace share one inbox through the LeadStream
+// server (`server/workspace.ts`): triage changes are sent as patches and
+// pushed to everyone else over a WebSocket, together with who has which
+// comment open. Drafts stay on the device they were written on.
+
+export interface TeamConfig {
+  // ws:// or wss:// address of the LeadStream server
+  serverUrl: string;
+  workspace: string;
+  // The agent's team token; the server knows their name from it
+  token: string;
+}
+
+export type TeamStatus = 'off' | 'connecting' | 'online' | 'offline';
+
+export interface WorkspaceSnapshot {
+  // This agent's name as teammates see it
+  member: string;
+  comments: Comment[];
+  activity: ActivityEntry[];
+  presence: PresenceEntry[];
+  members: string[];
+}
+
+export interface WorkspaceHandlers {
+  onSnapshot: (snapshot: WorkspaceSnapshot) => void;
+  onComments: (comments: Comment[]) => void;
+  onActivity: (entry: ActivityEntry) => void;
+  onPresence: (presence: PresenceEntry[], members: string[]) => void;
+  onStatus: (status: TeamStatus) => void;
+}
+
+export interface WorkspaceConnection {
+  // Adds comments the workspace doesn't have yet; existing ones are kept
+  upsert: (comments: Comment[]) => void;
+  patch: (commentId: string, patch: Partial<Comment>, action?: string) => void;
+  setPresence: (commentId: string | null, state?: PresenceState) => void;
+  close: () => void;
+}
+
+// JSON drops `undefined`, so cleared fields travel as null and the server
+// deletes them
+type WirePatch = { [K in keyof Comment]?: Comment[K] | null };
+
+type OutgoingMessage =
+  | { type: 'upsert'; comments: Comment[] }
+  | { type: 'patch'; commentId: string; patch: WirePatch; action?: string };
+
+const STORAGE_KEY = 'leadstream_team';
+const MEMBER_ID_KEY = 'leadstream_member_id';
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+export const DEFAULT_TEAM_SERVER = PROXY_URL ? PROXY_URL.replace(/^http/, 'ws') : 'ws://localhost:8790';
+
+export const loadTeamConfig = (): TeamConfig | null => {
+  try {
+    const config: TeamConfig | null = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    // Joined before the server required tokens; join again with one
+    return config?.token ? config : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveTeamConfig = (config: TeamConfig | null) => {
+  if (config) localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  else localStorage.removeItem(STORAGE_KEY);
+};
+
+// Identifies this tab, so two tabs of one agent show up separately
+export const memberId = () => {
+  let id = sessionStorage.getItem(MEMBER_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(MEMBER_ID_KEY, id);
+  }
+  return id;
+};
+
+// Teammates (and other tabs) who have this comment open
+export const othersOn = (presence: PresenceEntry[], commentId: string) =>
+  presence.filter(p => p.commentId === commentId && p.memberId !== memberId());
+
+export const withoutDraft = <T extends Partial<Comment>>(comment: T): T => {
+  const shared = { ...comment };
+  delete shared.draft;
+  return shared;
+};
+
+const MODERATION_ACTIONS: Record<ModerationStatus, string> = {
+  heldForReview: 'held it for review',
+  rejected: 'rejected it on the platform',
+  published: 'published it again'
+};
+
+// Activity log line for a change, read after the member's name ("Alex
+// marked it done"), or undefined for changes not worth logging (drafts,
+// lead notes typed one key at a time)
+export const describeChange = (before: Comment, after: Partial<Comment>): string | undefined => {
+  const lines: string[] = [];
+  if (after.postedReply !== undefined && after.postedReply !== before.postedReply) {
+    lines.push(after.replyQueued ? 'queued a reply' : 'posted a reply');
+  } else if (after.replied !== undefined && after.replied !== before.replied) {
+    lines.push(after.replied ? 'marked it done' : 'reopened it');
+  }
+  if ('assignee' in after && after.assignee !== before.assignee) {
+    lines.push(after.assignee ? `assigned it to ${after.assignee}` : 'unassigned it');
+  }
+  if (after.lead && !before.lead) lines.push('added it to the pipeline');
+  if (after.lead && before.lead && after.lead.stage !== before.lead.stage) {
+    lines.push(`moved it to ${STAGE_LABELS[after.lead.stage]}`);
+  }
+  if (after.lead?.followUpDate && after.lead.followUpDate !== before.lead?.followUpDate) {
+    lines.push(`set a follow-up for ${after.lead.followUpDate}`);
+  }
+  if (after.moderation && after.moderation !== before.moderation) {
+    lines.push(`marked it as ${MODERATION_LABELS[after.moderation]}`);
+  }
+  if (after.moderationStatus && after.moderationStatus !== before.moderationStatus) {
+    lines.push(MODERATION_ACTIONS[after.moderationStatus]);
+  }
+  if (after.authorBanned && !before.authorBanned) lines.push('banned the author');
+  if (after.analysis !== undefined && after.analysis !== before.analysis) lines.push('re-analyzed it');
+  return lines.length ? lines.join(', ') : undefined;
+};
+
+// Merges a patch the way the server does: null removes the field
+const applyPatch = (comment: Comment, patch: WirePatch): Comment => {
+  const next: Record<string, unknown> = { ...comment, ...patch };
+  Object.keys(patch).forEach(key => { if (next[key] === null) delete next[key]; });
+  return next as unknown as Comment;
+};
+
+const toWire = (patch: Partial<Comment>): WirePatch =>
+  Object.fromEntries(Object.entries(patch).map(([key, value]) => [key, value === undefined ? null : value]));
+
+// Opens the workspace socket and keeps it open, reconnecting with back-off.
+// Changes made while disconnected are kept and sent after the next snapshot,
+// and re-applied on top of it so they don't flicker away.
+export const connectWorkspace = (config: TeamConfig, handlers: WorkspaceHandlers): WorkspaceConnection => {
+  const url = new URL('/workspace', config.serverUrl);
+  url.searchParams.set('workspace', config.workspace);
+  url.searchParams.set('memberId', memberId());
+  url.searchParams.set('token', config.token);
+
+  let socket: WebSocket | null = null;
+  let closed = false;
+  // Set once the snapshot arrived; until then changes are held back
+  let ready = false;
+  let failures = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let pending: OutgoingMessage[] = [];
+  let presence: { commentId: string | null; state?: PresenceState } = { commentId: null };
+
+  const send = (message: OutgoingMessage | { type: 'presence'; commentId: string | null; state?: PresenceState }) =>
+    socket?.send(JSON.stringify(message));
+
+  const applyPending = (comments: Comment[]) => {
+    const byId = new Map(comments.map(c => [c.id, c]));
+    for (const message of pending) {
+      if (message.type === 'upsert') {
+        message.comments.forEach(c => { if (!byId.has(c.id)) byId.set(c.id, c); });
+      } else {
+        const current = byId.get(message.commentId);
+        if (current) byId.set(current.id, applyPatch(current, message.patch));
+      }
+    }
+    return [...byId.values()];
+  };
+
+  const connect = () => {
+    handlers.onStatus('connecting');
+    socket = new WebSocket(url);
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data);
+      if (message.type === 'snapshot') {
+        failures = 0;
+        ready = true;
+        handlers.onSnapshot({ ...message, comments: applyPending(message.comments) });
+        pending.forEach(send);
+        pending = [];
+        send({ type: 'presence', ...presence });
+        handlers.onStatus('online');
+      }
+      if (message.type === 'comments') handlers.onComments(message.comments);
+      if (message.type === 'activity') handlers.onActivity(message.entry);
+      if (message.type === 'presence') handlers.onPresence(message.presence, message.members);
+    };
+
+    socket.onclose = () => {
+      ready = false;
+      if (closed) return;
+      handlers.onStatus('offline');
+      const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** failures);
+      failures += 1;
+      reconnectTimer = setTimeout(connect, delay);
+    };
+  };
+
+  const queue = (message: OutgoingMessage) => {
+    if (ready) send(message);
+    else pending.push(message);
+  };
+
+  connect();
+
+  return {
+    upsert: (comments) => {
+      if (comments.length) queue({ type: 'upsert', comments: comments.map(withoutDraft) });
+    },
+    patch: (commentId, patch, action) => {
+      const shared = withoutDraft(patch);
+      if (Object.keys(shared).length) queue({ type: 'patch', commentId, patch: toWire(shared), action });
+    },
+    setPresence: (commentId, state) => {
+      presence = { commentId, state };
+      if (ready) send({ type: 'presence', ...presence });
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      handlers.onStatus('off');
+    }
+  };
+};
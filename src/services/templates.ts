@@ -0,0 +1,102 @@
+import type { AgentProfile, Comment, IntentCategory, ReplyTemplate } from '../types';
+
+// --- REPLY TEMPLATES ---
+// Templates use {variable} placeholders filled from the comment and the saved
+// agent profile. Unknown or empty variables are left as written so the agent
+// notices them before posting.
+
+export const TEMPLATE_VARIABLES = ['firstName', 'videoTitle', 'agentName', 'email', 'phone', 'instagram', 'calendarLink'] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export const EMPTY_PROFILE: AgentProfile = { name: '', email: '', phone: '', instagram: '', calendarLink: '' };
+
+export const DEFAULT_TEMPLATES: ReplyTemplate[] = [
+  {
+    id: 'buyer-intro',
+    name: 'Buyer intro',
+    intent: 'buyer',
+    body: "Hi {firstName}! Thanks for watching {videoTitle}. I'd love to help you with your search. Grab a time that works for you here: {calendarLink} or email me at {email}."
+  },
+  {
+    id: 'seller-valuation',
+    name: 'Seller valuation',
+    intent: 'seller',
+    body: "Thanks {firstName}! Happy to put together a free valuation for your home. Send me your address at {email} and I'll get back to you within a day."
+  },
+  {
+    id: 'investor-comps',
+    name: 'Investor comps',
+    intent: 'investor',
+    body: "Great question {firstName}. Numbers vary a lot by street, so I'd rather send you real comps than guess. Email me at {email} and tell me what you're targeting."
+  },
+  {
+    id: 'agent-referral',
+    name: 'Agent referral',
+    intent: 'agent_referral',
+    body: "Hi {firstName}! I work with a trusted network of agents. DM me on Instagram {instagram} or email {email} and I'll connect you with the right person."
+  },
+  {
+    id: 'thanks',
+    name: 'Thanks for watching',
+    intent: 'any',
+    body: "Thanks for watching, {firstName}! Appreciate the support."
+  }
+];
+
+// Chinese, Japanese and Korean names have no spaces and are used whole
+const CJK_NAME = /^[\u3040-\u30ff\u4e00-\u9fff\uac00-\ud7af]+$/;
+
+// "Mike_Gaming_99" -> "Mike", "@sarah.jenkins" -> "Sarah", "иван" -> "Иван",
+// "张伟" -> "张伟"
+export const firstNameOf = (displayName: string) => {
+  const name = displayName.replace(/^@/, '').trim();
+  if (CJK_NAME.test(name)) return name;
+  const word = name.split(/[\s_.-]+/).find(part => /\p{L}/u.test(part)) ?? '';
+  const letters = word.replace(/[^\p{L}'-]/gu, '');
+  return letters ? letters[0].toUpperCase() + letters.slice(1) : 'there';
+};
+
+export const templateValues = (comment: Comment, profile: AgentProfile): Record<TemplateVariable, string> => ({
+  firstName: firstNameOf(comment.authorDisplayName),
+  videoTitle: comment.videoTitle,
+  agentName: profile.name,
+  email: profile.email,
+  phone: profile.phone,
+  instagram: profile.instagram,
+  calendarLink: profile.calendarLink
+});
+
+export const fillTemplate = (body: string, comment: Comment, profile: AgentProfile) => {
+  const values = templateValues(comment, profile);
+  return body.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = values[name as TemplateVariable];
+    return value ? value : match;
+  });
+};
+
+// Templates for the comment's intent first, then general ones, then the rest.
+export const rankTemplates = (templates: ReplyTemplate[], intent: IntentCategory) => {
+  const rank = (t: ReplyTemplate) => (t.intent === intent ? 0 : t.intent === 'any' ? 1 : 2);
+  return [...templates].sort((a, b) => rank(a) - rank(b));
+};
+
+export const loadTemplates = (): ReplyTemplate[] => {
+  const stored = localStorage.getItem('leadstream_templates');
+  if (!stored) return DEFAULT_TEMPLATES;
+  try {
+    return JSON.parse(stored) as ReplyTemplate[];
+  } catch {
+    return DEFAULT_TEMPLATES;
+  }
+};
+
+export const loadProfile = (): AgentProfile => {
+  const stored = localStorage.getItem('leadstream_profile');
+  if (!stored) return EMPTY_PROFILE;
+  try {
+    return { ...EMPTY_PROFILE, ...JSON.parse(stored) };
+  } catch {
+    return EMPTY_PROFILE;
+  }
+};
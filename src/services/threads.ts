@@ -0,0 +1,25 @@
+import type { Comment, ThreadMessage } from '../types';
+
+// --- THREAD STATE ---
+
+const lastMessage = (thread: ThreadMessage[] = []) => thread[thread.length - 1];
+
+// Messages in `next` that were not in `previous`
+export const newMessages = (previous: ThreadMessage[] = [], next: ThreadMessage[] = []) => {
+  const seen = new Set(previous.map(m => m.id));
+  return next.filter(m => !seen.has(m.id));
+};
+
+// A thread counts as replied when the owner spoke last. A follow-up from
+// anyone else after that reopens it; otherwise a manual "done" is kept.
+export const replyStatusFor = (
+  thread: ThreadMessage[] = [],
+  current?: Pick<Comment, 'replied' | 'repliedAt' | 'thread'>
+): Pick<Comment, 'replied' | 'repliedAt'> => {
+  const last = lastMessage(thread);
+  if (last?.fromOwner) return { replied: true, repliedAt: current?.repliedAt ?? last.publishedAt };
+  if (!current) return { replied: false };
+
+  const followUp = newMessages(current.thread, thread).some(m => !m.fromOwner);
+  return followUp ? { replied: false, repliedAt: undefined } : { replied: current.replied, repliedAt: current.repliedAt };
+};
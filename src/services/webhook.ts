@@ -0,0 +1,30 @@
+import type { Comment } from '../types';
+import { toLeadRow } from './export';
+import type { LeadRow } from './export';
+
+// --- CRM WEBHOOK ---
+// Outbound POST to a user-configured URL (Zapier, HubSpot workflow, Follow Up
+// Boss, ...). See `mock/webhook-receiver.mjs` for a local receiver.
+
+export type WebhookEvent = 'lead.flagged' | 'comment.done' | 'test';
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  sentAt: string;
+  lead: LeadRow;
+}
+
+export const buildLeadPayload = (event: WebhookEvent, comment: Comment): WebhookPayload => ({
+  event,
+  sentAt: new Date().toISOString(),
+  lead: toLeadRow(comment)
+});
+
+export const sendWebhook = async (url: string, payload: WebhookPayload) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  });
+  if (!response.ok) throw new Error(`Webhook responded with ${response.status}.`);
+};
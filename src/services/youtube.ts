@@ -0,0 +1,303 @@
+import type { Comment, ModerationStatus } from '../types';
+import { proxyHeaders } from './proxy';
+
+// --- YOUTUBE DATA API ---
+
+const YOUTUBE_API = `${import.meta.env.VITE_API_PROXY_URL || import.meta.env.VITE_YOUTUBE_BASE_URL || 'https://www.googleapis.com'}/youtube/v3`;
+const PAGE_SIZE = 100;
+
+export const DEFAULT_MAX_PAGES = 5;
+
+export interface YouTubeCommentSnippet {
+  authorDisplayName: string;
+  authorProfileImageUrl: string;
+  authorChannelUrl?: string;
+  authorChannelId?: { value: string };
+  textDisplay: string;
+  publishedAt: string;
+  updatedAt: string;
+  videoId?: string;
+  parentId?: string;
+}
+
+export interface YouTubeComment {
+  id: string;
+  snippet: YouTubeCommentSnippet;
+}
+
+export interface YouTubeCommentThread {
+  id: string;
+  snippet: {
+    videoId?: string;
+    totalReplyCount?: number;
+    topLevelComment: YouTubeComment;
+  };
+  // Only a handful of replies are embedded; see `fetchThreadReplies`
+  replies?: { comments: YouTubeComment[] };
+}
+
+export interface VideoInfo {
+  id: string;
+  title: string;
+  thumbnail: string;
+}
+
+interface VideoListResponse {
+  items?: {
+    id: string;
+    snippet: {
+      title: string;
+      thumbnails: Record<string, { url: string } | undefined>;
+    };
+  }[];
+  error?: { message: string };
+}
+
+interface CommentListResponse {
+  items?: YouTubeComment[];
+  nextPageToken?: string;
+  error?: { message: string };
+}
+
+interface CommentThreadListResponse {
+  items?: YouTubeCommentThread[];
+  nextPageToken?: string;
+  error?: { message: string };
+}
+
+// Without a token the proxy answers read-only calls with its own API key
+const authHeaders = (accessToken: string): Record<string, string> => ({
+  ...proxyHeaders(),
+  ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+});
+
+export interface ChannelInfo {
+  id: string;
+  title: string;
+  thumbnail: string;
+}
+
+interface ChannelListResponse {
+  items?: {
+    id: string;
+    snippet: {
+      title: string;
+      thumbnails: Record<string, { url: string } | undefined>;
+    };
+  }[];
+  error?: { message: string };
+}
+
+// The channel owned by the signed-in account.
+export const fetchMyChannel = async (accessToken: string): Promise<ChannelInfo> => {
+  const response = await fetch(`${YOUTUBE_API}/channels?part=snippet&mine=true`, { headers: authHeaders(accessToken) });
+  const data: ChannelListResponse = await response.json();
+
+  if (data.error) throw new Error(data.error.message);
+  const channel = data.items?.[0];
+  if (!channel) throw new Error('This Google account has no YouTube channel.');
+
+  const { thumbnails } = channel.snippet;
+  return {
+    id: channel.id,
+    title: channel.snippet.title,
+    thumbnail: (thumbnails.default ?? Object.values(thumbnails)[0])?.url ?? ''
+  };
+};
+
+export interface FetchThreadsOptions {
+  accessToken: string;
+  channelId: string;
+  maxPages?: number;
+  // ISO timestamp of the newest activity already synced. Paging stops at the
+  // first thread with no newer top-level comment or reply.
+  since?: string | null;
+  // Continue an earlier fetch that hit the page limit
+  pageToken?: string;
+}
+
+export interface FetchThreadsResult {
+  threads: YouTubeCommentThread[];
+  // Set when the page limit was reached before `since`; threads between
+  // here and `since` are still to be fetched
+  nextPageToken?: string;
+}
+
+// Latest time anything was posted in the thread
+export const threadActivityAt = (thread: YouTubeCommentThread) =>
+  Math.max(
+    new Date(thread.snippet.topLevelComment.snippet.publishedAt).getTime(),
+    ...(thread.replies?.comments ?? []).map(reply => new Date(reply.snippet.publishedAt).getTime())
+  );
+
+// Walks `nextPageToken` newest-first until the page limit is reached or the
+// threads become older than `since`.
+export const fetchCommentThreads = async ({
+  accessToken,
+  channelId,
+  maxPages = DEFAULT_MAX_PAGES,
+  since,
+  pageToken: startToken
+}: FetchThreadsOptions): Promise<FetchThreadsResult> => {
+  const threads: YouTubeCommentThread[] = [];
+  const sinceTime = since ? new Date(since).getTime() : 0;
+  let pageToken = startToken;
+
+  for (let page = 0; page < maxPages; page++) {
+    const params = new URLSearchParams({
+      part: 'snippet,replies',
+      allThreadsRelatedToChannelId: channelId,
+      maxResults: String(PAGE_SIZE),
+      order: 'time'
+    });
+    if (pageToken) params.set('pageToken', pageToken);
+
+    const response = await fetch(`${YOUTUBE_API}/commentThreads?${params}`, { headers: authHeaders(accessToken) });
+    const data: CommentThreadListResponse = await response.json();
+
+    if (data.error) throw new Error(data.error.message);
+
+    for (const item of data.items ?? []) {
+      if (threadActivityAt(item) <= sinceTime) return { threads };
+      threads.push(item);
+    }
+
+    if (!data.nextPageToken) return { threads };
+    pageToken = data.nextPageToken;
+  }
+
+  return { threads, nextPageToken: pageToken };
+};
+
+const MAX_REPLY_PAGES = 10;
+
+// All replies of a thread, oldest first. Uses the embedded replies when they
+// are complete and pages through comments.list otherwise.
+export const fetchThreadReplies = async (accessToken: string, thread: YouTubeCommentThread): Promise<YouTubeComment[]> => {
+  const embedded = thread.replies?.comments ?? [];
+  let replies = embedded;
+
+  if ((thread.snippet.totalReplyCount ?? 0) > embedded.length) {
+    replies = [];
+    let pageToken: string | undefined;
+    for (let page = 0; page < MAX_REPLY_PAGES; page++) {
+      const params = new URLSearchParams({ part: 'snippet', parentId: thread.id, maxResults: String(PAGE_SIZE) });
+      if (pageToken) params.set('pageToken', pageToken);
+
+      const response = await fetch(`${YOUTUBE_API}/comments?${params}`, { headers: authHeaders(accessToken) });
+      const data: CommentListResponse = await response.json();
+
+      if (data.error) throw new Error(data.error.message);
+      replies.push(...(data.items ?? []));
+
+      if (!data.nextPageToken) break;
+      pageToken = data.nextPageToken;
+    }
+  }
+
+  return [...replies].sort(
+    (a, b) => new Date(a.snippet.publishedAt).getTime() - new Date(b.snippet.publishedAt).getTime()
+  );
+};
+
+// The videos endpoint accepts at most 50 ids per call.
+const VIDEO_BATCH_SIZE = 50;
+const videoCache = new Map<string, VideoInfo>();
+
+// Looks up title and thumbnail for each video id, hitting the API only for ids
+// that are not cached yet.
+export const fetchVideos = async (accessToken: string, videoIds: string[]): Promise<Map<string, VideoInfo>> => {
+  const missing = [...new Set(videoIds)].filter(id => id && !videoCache.has(id));
+
+  for (let i = 0; i < missing.length; i += VIDEO_BATCH_SIZE) {
+    const params = new URLSearchParams({
+      part: 'snippet',
+      id: missing.slice(i, i + VIDEO_BATCH_SIZE).join(','),
+      maxResults: String(VIDEO_BATCH_SIZE)
+    });
+
+    const response = await fetch(`${YOUTUBE_API}/videos?${params}`, { headers: authHeaders(accessToken) });
+    const data: VideoListResponse = await response.json();
+
+    if (data.error) throw new Error(data.error.message);
+
+    for (const item of data.items ?? []) {
+      const { thumbnails } = item.snippet;
+      videoCache.set(item.id, {
+        id: item.id,
+        title: item.snippet.title,
+        thumbnail: (thumbnails.medium ?? thumbnails.default ?? Object.values(thumbnails)[0])?.url ?? ''
+      });
+    }
+  }
+
+  const result = new Map<string, VideoInfo>();
+  for (const id of videoIds) {
+    const info = videoCache.get(id);
+    if (info) result.set(id, info);
+  }
+  return result;
+};
+
+interface CommentInsertResponse {
+  id?: string;
+  snippet?: { textOriginal: string; publishedAt: string };
+  error?: { message: string };
+}
+
+// Posts a reply under a top-level comment. Requires an OAuth access token with
+// the youtube.force-ssl scope; API keys cannot write.
+export const postReply = async (accessToken: string, parentId: string, text: string) => {
+  const response = await fetch(`${YOUTUBE_API}/comments?part=snippet`, {
+    method: 'POST',
+    headers: { ...authHeaders(accessToken), 'Content-Type': 'application/json' },
+    body: JSON.stringify({ snippet: { parentId, textOriginal: text } })
+  });
+  const data: CommentInsertResponse = await response.json();
+
+  if (data.error) throw new Error(data.error.message);
+  if (!data.id) throw new Error('YouTube did not return the posted reply.');
+  return { id: data.id, publishedAt: data.snippet?.publishedAt ?? new Date().toISOString() };
+};
+
+// Holds, rejects or re-publishes a comment on the channel. Rejecting can
+// also ban the author from commenting on the channel again.
+export const setModerationStatus = async (accessToken: string, commentId: string, status: ModerationStatus, banAuthor = false) => {
+  const params = new URLSearchParams({ id: commentId, moderationStatus: status });
+  if (banAuthor && status === 'rejected') params.set('banAuthor', 'true');
+  const response = await fetch(`${YOUTUBE_API}/comments/setModerationStatus?${params}`, {
+    method: 'POST',
+    headers: authHeaders(accessToken)
+  });
+  // Success is an empty 204; only errors carry a body
+  if (!response.ok) {
+    const data: { error?: { message: string } } = await response.json().catch(() => ({}));
+    throw new Error(data.error?.message ?? `YouTube responded with ${response.status}.`);
+  }
+};
+
+// Link that opens the video with the comment highlighted, for replying by hand.
+export const commentDeepLink = (comment: Pick<Comment, 'id' | 'videoId'>, channelId?: string) =>
+  comment.videoId
+    ? `https://www.youtube.com/watch?v=${comment.videoId}&lc=${comment.id}`
+    : `https://studio.youtube.com/channel/${channelId ?? ''}/comments/inbox`;
+
+// Merges freshly fetched comments into the existing list by `id`. Local
+// triage state (replied flag, analysis and draft) wins over the incoming copy
+// so a refresh never undoes work; only the comment text is updated.
+export const mergeComments = (existing: Comment[], incoming: Comment[]): Comment[] => {
+  const byId = new Map(existing.map(c => [c.id, c]));
+  for (const comment of incoming) {
+    const current = byId.get(comment.id);
+    byId.set(comment.id, current ? { ...current, textDisplay: comment.textDisplay } : comment);
+  }
+  return [...byId.values()].sort(
+    (a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+  );
+};
+
+export const newestPublishedAt = (comments: Pick<Comment, 'publishedAt'>[]): string | null =>
+  comments.reduce<string | null>(
+    (latest, c) => (!latest || new Date(c.publishedAt) > new Date(latest) ? c.publishedAt : latest),
+    null
+  );
@@ -0,0 +1,257 @@
+// --- SHARED TYPES ---
+
+export type IntentCategory = 'buyer' | 'seller' | 'investor' | 'renter' | 'agent_referral' | 'other';
+
+export const INTENT_CATEGORIES: IntentCategory[] = ['buyer', 'seller', 'investor', 'renter', 'agent_referral', 'other'];
+
+export const INTENT_LABELS: Record<IntentCategory, string> = {
+  buyer: 'Buyer',
+  seller: 'Seller',
+  investor: 'Investor',
+  renter: 'Renter',
+  agent_referral: 'Agent Referral',
+  other: 'Other'
+};
+
+export type LeadTier = 'hot' | 'warm' | 'cold';
+
+// Moderation verdict, separate from lead detection; anything but 'clean' is
+// flagged and never counts as a lead
+export type ModerationFlag = 'clean' | 'spam' | 'scam' | 'bot' | 'toxic';
+
+export const MODERATION_FLAGS: ModerationFlag[] = ['clean', 'spam', 'scam', 'bot', 'toxic'];
+
+export const MODERATION_LABELS: Record<ModerationFlag, string> = {
+  clean: 'Clean',
+  spam: 'Spam',
+  scam: 'Scam',
+  bot: 'Bot / Duplicate',
+  toxic: 'Toxic'
+};
+
+// Statuses accepted by YouTube's comments.setModerationStatus
+export type ModerationStatus = 'heldForReview' | 'rejected' | 'published';
+
+export type Platform = 'youtube' | 'facebook';
+
+export const PLATFORM_LABELS: Record<Platform, string> = {
+  youtube: 'YouTube',
+  facebook: 'Facebook'
+};
+
+// A channel or page whose comments feed the inbox
+export interface SourceConfig {
+  // `${platform}:${externalId}`
+  id: string;
+  platform: Platform;
+  // YouTube channel id or Facebook Page id
+  externalId: string;
+  name: string;
+  thumbnail?: string;
+  // Page access token; YouTube sources use the Google sign-in instead
+  accessToken?: string;
+}
+
+// Details pulled out of the comment text. All free-form, as written.
+export interface LeadEntities {
+  budget?: string;
+  timeline?: string;
+  location?: string;
+  email?: string;
+  phone?: string;
+}
+
+// A reply under a top-level comment
+export interface ThreadMessage {
+  id: string;
+  authorDisplayName: string;
+  textDisplay: string;
+  publishedAt: string;
+  thumbnail: string;
+  // Posted by the channel or page that owns the source
+  fromOwner: boolean;
+}
+
+export interface Comment {
+  id: string;
+  platform: Platform;
+  sourceId: string;
+  authorDisplayName: string;
+  authorChannelUrl?: string;
+  textDisplay: string;
+  // For Facebook comments the "video" is the Page post
+  videoId?: string;
+  videoTitle: string;
+  videoThumbnail?: string;
+  // Direct link to the comment on its platform, when the API provides one
+  permalink?: string;
+  publishedAt: string;
+  // Replies, oldest first
+  thread?: ThreadMessage[];
+  isLead: boolean;
+  // 0-100, higher means closer to a transaction
+  leadScore: number;
+  intent: IntentCategory;
+  entities: LeadEntities;
+  analysis: string;
+  suggestedReply: string;
+  // Language of the comment (ISO 639-1); missing on comments analyzed before
+  // detection existed, which are treated as English
+  language?: string;
+  translation?: string;
+  // English preview of a `suggestedReply` written in another language
+  suggestedReplyEnglish?: string;
+  moderation: ModerationFlag;
+  // Set once someone confirmed or overrode the moderation flag by hand
+  moderationReviewed?: boolean;
+  // Last moderation action taken on the platform
+  moderationStatus?: ModerationStatus;
+  authorBanned?: boolean;
+  // Agent's edited version of `suggestedReply`, if any
+  draft?: string;
+  replied: boolean;
+  // Text and time of the reply posted from the app
+  postedReply?: string;
+  repliedAt?: string;
+  // Reply written offline, waiting in the outbox to be posted
+  replyQueued?: boolean;
+  // Team member the comment is assigned to, in a shared workspace
+  assignee?: string;
+  lead?: LeadRecord;
+  thumbnail: string;
+}
+
+export interface AIAnalysisResult {
+  isLead: boolean;
+  score: number;
+  intent: IntentCategory;
+  entities: LeadEntities;
+  moderation: ModerationFlag;
+  // ISO 639-1 code of the comment, e.g. "es"
+  language: string;
+  // English translation of a non-English comment
+  translation?: string;
+  reason: string;
+  // In the commenter's language
+  reply: string;
+  // English version of a non-English reply, for the agent
+  replyEnglish?: string;
+}
+
+export type PipelineStage = 'new' | 'contacted' | 'in_conversation' | 'qualified' | 'closed_won' | 'closed_lost';
+
+export interface StageChange {
+  from: PipelineStage | null;
+  to: PipelineStage;
+  at: string;
+}
+
+// CRM-style record kept on a comment once it is worked as a lead
+export interface LeadRecord {
+  stage: PipelineStage;
+  notes: string;
+  owner?: string;
+  // yyyy-mm-dd
+  followUpDate?: string;
+  history: StageChange[];
+}
+
+// Contact details used to fill reply template variables
+export interface AgentProfile {
+  name: string;
+  email: string;
+  phone: string;
+  instagram: string;
+  calendarLink: string;
+}
+
+export interface ContactLink {
+  label: string;
+  url: string;
+}
+
+export interface FaqSnippet {
+  id: string;
+  question: string;
+  answer: string;
+}
+
+// What the AI may say about the agent in a reply. Service areas and banned
+// phrases are kept one per line as typed; blank lines are ignored.
+export interface KnowledgeBase {
+  brokerage: string;
+  bio: string;
+  serviceAreas: string[];
+  links: ContactLink[];
+  faqs: FaqSnippet[];
+  // Compliance rules (fair housing): never allowed in a reply
+  bannedPhrases: string[];
+}
+
+export interface ReplyTemplate {
+  id: string;
+  name: string;
+  // Intent the template is written for; 'any' fits every comment
+  intent: IntentCategory | 'any';
+  body: string;
+}
+
+// --- INBOX FILTERS ---
+
+export type SortOrder = 'date' | 'score';
+
+// Relative ranges keep saved views like "this week" meaningful over time
+export type DateRange = 'any' | 'today' | 'week' | 'month' | 'custom';
+
+export type StatusFilter = 'any' | 'leads' | 'flagged' | PipelineStage;
+
+export interface CommentFilters {
+  query: string;
+  // Video id or post title; '' matches everything
+  context: string;
+  range: DateRange;
+  // yyyy-mm-dd bounds, used when `range` is 'custom'
+  from?: string;
+  to?: string;
+  minScore: number;
+  intent: IntentCategory | 'any';
+  status: StatusFilter;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: CommentFilters;
+  sortBy: SortOrder;
+}
+
+// --- BATCH ACTIONS ---
+
+// Author whose comments are hidden from the inbox (spam, bots, trolls)
+export interface IgnoredAuthor {
+  key: string;
+  name: string;
+  platform: Platform;
+}
+
+// --- TEAM WORKSPACE ---
+
+export type PresenceState = 'viewing' | 'drafting';
+
+// A team member who has a comment open right now
+export interface PresenceEntry {
+  memberId: string;
+  member: string;
+  commentId: string;
+  state: PresenceState;
+}
+
+// One line in a comment's shared history: `member` did `action`,
+// e.g. "Alex" + "marked it done"
+export interface ActivityEntry {
+  id: string;
+  commentId: string;
+  member: string;
+  action: string;
+  at: string;
+}
@@ -1 +1,23 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // LeadStream server (`npm run server`); when set, YouTube and Gemini calls go through it
+  readonly VITE_API_PROXY_URL?: string;
+  // Overrides the Gemini API host, e.g. http://localhost:8787 for mock/gemini-server.mjs
+  readonly VITE_GEMINI_BASE_URL?: string;
+  // Gemini model for analysis; must match GEMINI_MODEL on the LeadStream server
+  readonly VITE_GEMINI_MODEL?: string;
+  // OAuth client and endpoints; point these at mock/oauth-server.mjs to test sign-in offline
+  readonly VITE_GOOGLE_CLIENT_ID?: string;
+  readonly VITE_OAUTH_AUTH_URL?: string;
+  readonly VITE_OAUTH_TOKEN_URL?: string;
+  readonly VITE_OAUTH_REVOKE_URL?: string;
+  // Overrides the YouTube Data API host (the mock OAuth server also answers channels?mine=true)
+  readonly VITE_YOUTUBE_BASE_URL?: string;
+  // Overrides the Facebook Graph API host
+  readonly VITE_FACEBOOK_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}